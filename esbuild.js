@@ -57,9 +57,9 @@ const extensionConfig = {
 
 // Webview bundle (Browser)
 const webviewConfig = {
-  entryPoints: ['./webview-ui/bulkCommit.ts'],
+  entryPoints: ['./webview-ui/bulkCommit.ts', './webview-ui/branchVisualizer.ts'],
   bundle: true,
-  outfile: './dist/webview/bulkCommit.js',
+  outdir: './dist/webview',
   format: 'iife',
   platform: 'browser',
   sourcemap: !production,
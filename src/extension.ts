@@ -1,14 +1,22 @@
 import * as vscode from 'vscode';
 import { GitService } from './git/gitService';
 import { BulkCommitPanel } from './toys/bulk-commit/bulkCommitPanel';
+import { BranchVisualizerPanel } from './toys/branch-visualizer/branchVisualizerPanel';
 import { ToysTreeProvider } from './views/toysTreeProvider';
 import { QuickActionsProvider } from './views/quickActionsProvider';
 import { StatusBarManager } from './views/statusBarManager';
+import { SyncDashboardProvider } from './views/syncDashboardProvider';
+import { CommitMessageProviderRegistry } from './toys/bulk-commit/commitMessageProviders';
+import { CoAuthorSelection, pickCoAuthors, pickCommitAuthor } from './toys/bulk-commit/coAuthors';
+import { DraftStore } from './toys/bulk-commit/draftStore';
+import { StashTreeProvider } from './toys/stash-manager/stashTreeProvider';
+import * as stashActions from './toys/stash-manager/stashActions';
+import { GitToysAPI } from './types/api';
 
 let gitService: GitService;
 let statusBarManager: StatusBarManager | undefined;
 
-export async function activate(context: vscode.ExtensionContext) {
+export async function activate(context: vscode.ExtensionContext): Promise<GitToysAPI> {
   console.log('GitToys is now active!');
 
   // Initialize Git Service
@@ -18,15 +26,36 @@ export async function activate(context: vscode.ExtensionContext) {
   if (!initialized) {
     vscode.window.showWarningMessage('GitToys: Could not initialize Git. Some features may not work.');
   }
+  context.subscriptions.push(gitService);
+
+  // Commit message providers contributed by other extensions
+  const messageProviders = new CommitMessageProviderRegistry();
+
+  // Co-authors and author of Bulk Commit runs, shared by the panel and Quick Actions
+  const coAuthors = new CoAuthorSelection(context.workspaceState);
+  context.subscriptions.push(coAuthors);
+
+  // Bulk Commit drafts, per repository and branch
+  const drafts = new DraftStore(context.workspaceState);
 
   // Register the Toys Tree View
   const toysProvider = new ToysTreeProvider();
   vscode.window.registerTreeDataProvider('gittoys.toysView', toysProvider);
 
   // Register Quick Actions Tree View
-  const quickActionsProvider = new QuickActionsProvider(gitService);
+  const quickActionsProvider = new QuickActionsProvider(gitService, coAuthors);
+  context.subscriptions.push(coAuthors.onDidChange(() => quickActionsProvider.refresh()));
   vscode.window.registerTreeDataProvider('gittoys.quickActionsView', quickActionsProvider);
 
+  // Register Sync Dashboard Tree View
+  const syncDashboardProvider = new SyncDashboardProvider(gitService);
+  vscode.window.registerTreeDataProvider('gittoys.syncDashboardView', syncDashboardProvider);
+
+  // Register Stash Manager Tree View
+  const stashProvider = new StashTreeProvider(gitService);
+  const stashView = vscode.window.createTreeView('gittoys.stashView', { treeDataProvider: stashProvider });
+  context.subscriptions.push(stashView);
+
   // Initialize Status Bar
   const config = vscode.workspace.getConfiguration('gittoys');
   if (config.get('quickActions.showInStatusBar', true)) {
@@ -38,7 +67,7 @@ export async function activate(context: vscode.ExtensionContext) {
 
   // Open Bulk Commit Panel
   const openBulkCommitCmd = vscode.commands.registerCommand('gittoys.openBulkCommit', () => {
-    BulkCommitPanel.createOrShow(context.extensionUri, gitService);
+    BulkCommitPanel.createOrShow(context.extensionUri, gitService, messageProviders, coAuthors, drafts);
   });
 
   // Refresh
@@ -56,7 +85,13 @@ export async function activate(context: vscode.ExtensionContext) {
     const syncStatus = gitService.getSyncStatus();
     const changesCount = gitService.getChangesCount();
     
+    const repoInfo = gitService.getRepositoryInfo();
     const actions = [
+      ...(gitService.getRepositories().length > 1 ? [{
+        label: '$(repo) Repository',
+        description: repoInfo ? `${repoInfo.name} (${repoInfo.branch})` : 'Pick a repository',
+        action: 'repository'
+      }] : []),
       { 
         label: '$(cloud-upload) Push', 
         description: syncStatus ? `${syncStatus.ahead} commit(s) ahead` : 'Push to remote', 
@@ -74,6 +109,16 @@ export async function activate(context: vscode.ExtensionContext) {
         description: `${changesCount.total} file(s) changed`, 
         action: 'bulk' 
       },
+      {
+        label: '$(person-add) Co-authors',
+        description: coAuthors.coAuthors.length > 0 ? `${coAuthors.coAuthors.length} selected` : 'Pair programming',
+        action: 'coAuthors'
+      },
+      {
+        label: '$(person) Commit Author',
+        description: coAuthors.author || 'Me',
+        action: 'author'
+      },
     ];
 
     const selected = await vscode.window.showQuickPick(actions, {
@@ -110,6 +155,15 @@ export async function activate(context: vscode.ExtensionContext) {
         case 'bulk':
           vscode.commands.executeCommand('gittoys.openBulkCommit');
           break;
+        case 'coAuthors':
+          vscode.commands.executeCommand('gittoys.pickCoAuthors');
+          break;
+        case 'author':
+          vscode.commands.executeCommand('gittoys.setCommitAuthor');
+          break;
+        case 'repository':
+          vscode.commands.executeCommand('gittoys.selectRepository');
+          break;
       }
     }
   });
@@ -191,7 +245,8 @@ export async function activate(context: vscode.ExtensionContext) {
 
   // Apply Template command (for bulk commit panel)
   const applyTemplateCmd = vscode.commands.registerCommand('gittoys.applyTemplate', async () => {
-    const templates = config.get<Array<{ name: string; template: string; description: string }>>('bulkCommit.templates', []);
+    const templates = vscode.workspace.getConfiguration('gittoys')
+      .get<Array<{ name: string; template: string; description: string }>>('bulkCommit.templates', []);
 
     if (templates.length === 0) {
       vscode.window.showWarningMessage('GitToys: No commit templates configured');
@@ -201,6 +256,7 @@ export async function activate(context: vscode.ExtensionContext) {
     const items = templates.map(t => ({
       label: t.name,
       description: t.description,
+      detail: t.template,
       template: t.template
     }));
 
@@ -209,23 +265,108 @@ export async function activate(context: vscode.ExtensionContext) {
       title: 'Commit Templates'
     });
 
-    if (selected && BulkCommitPanel.currentPanel) {
-      BulkCommitPanel.currentPanel.applyTemplate(selected.template);
+    if (selected) {
+      BulkCommitPanel.createOrShow(context.extensionUri, gitService, messageProviders, coAuthors, drafts);
+      BulkCommitPanel.currentPanel?.applyTemplate(selected.template);
     }
   });
 
+  // Co-authors and author override for Bulk Commit runs
+  const pickCoAuthorsCmd = vscode.commands.registerCommand('gittoys.pickCoAuthors', () =>
+    pickCoAuthors(gitService, coAuthors)
+  );
+
+  const setCommitAuthorCmd = vscode.commands.registerCommand('gittoys.setCommitAuthor', () =>
+    pickCommitAuthor(gitService, coAuthors)
+  );
+
+  // Pick the repository Quick Actions and Bulk Commit work on
+  const selectRepositoryCmd = vscode.commands.registerCommand('gittoys.selectRepository', async () => {
+    const selectedRoot = gitService.getSelectedRepositoryRoot();
+    const items = [
+      {
+        label: '$(file) Follow the Active Editor',
+        description: selectedRoot === undefined ? 'current' : '',
+        detail: undefined as string | undefined,
+        rootPath: undefined as string | undefined
+      },
+      ...gitService.getRepositories().map(repo => {
+        const info = gitService.getRepositoryInfo(repo);
+        const changes = gitService.getChangesCount(repo).total;
+        return {
+          label: `$(repo) ${info?.name}`,
+          description: `${info?.branch}${changes > 0 ? ` · ${changes} changed` : ''}${repo.rootUri.fsPath === selectedRoot ? ' · current' : ''}`,
+          detail: repo.rootUri.fsPath,
+          rootPath: repo.rootUri.fsPath as string | undefined
+        };
+      })
+    ];
+
+    const selected = await vscode.window.showQuickPick(items, {
+      placeHolder: 'Select the repository for Quick Actions and Bulk Commit',
+      title: 'Repository'
+    });
+    if (selected) {
+      gitService.selectRepository(selected.rootPath);
+    }
+  });
+
+  // Sync Dashboard: fetch, pull (fast-forward only) or push every repository
+  const fetchAllCmd = vscode.commands.registerCommand('gittoys.fetchAll', () => syncDashboardProvider.syncAll('fetch'));
+  const pullAllCmd = vscode.commands.registerCommand('gittoys.pullAll', () => syncDashboardProvider.syncAll('pull'));
+  const pushAllCmd = vscode.commands.registerCommand('gittoys.pushAll', () => syncDashboardProvider.syncAll('push'));
+  const refreshSyncDashboardCmd = vscode.commands.registerCommand('gittoys.refreshSyncDashboard', () =>
+    syncDashboardProvider.refresh()
+  );
+
+  // Open Branch Visualizer
+  const openBranchVisualizerCmd = vscode.commands.registerCommand('gittoys.openBranchVisualizer', () => {
+    BranchVisualizerPanel.createOrShow(context.extensionUri, gitService);
+  });
+
+  // Stash Manager
+  const openStashManagerCmd = vscode.commands.registerCommand('gittoys.openStashManager', () =>
+    vscode.commands.executeCommand('gittoys.stashView.focus')
+  );
+  const stashCmds = [
+    vscode.commands.registerCommand('gittoys.stash.create', () => stashActions.createStash(gitService, stashProvider)),
+    vscode.commands.registerCommand('gittoys.stash.apply', item => stashActions.applyStash(gitService, stashProvider, item)),
+    vscode.commands.registerCommand('gittoys.stash.pop', item => stashActions.popStash(gitService, stashProvider, item)),
+    vscode.commands.registerCommand('gittoys.stash.drop', item => stashActions.dropStash(gitService, stashProvider, item)),
+    vscode.commands.registerCommand('gittoys.stash.rename', item => stashActions.renameStash(gitService, stashProvider, item)),
+    vscode.commands.registerCommand('gittoys.stash.openFileDiff', item => stashActions.openStashFileDiff(gitService, item)),
+    vscode.commands.registerCommand('gittoys.stash.search', async () => {
+      await stashActions.searchStashes(stashProvider);
+      stashView.message = stashProvider.query ? `Stashes matching "${stashProvider.query}"` : undefined;
+    }),
+    vscode.commands.registerCommand('gittoys.stash.clearSearch', () => {
+      stashProvider.setQuery(undefined);
+      stashView.message = undefined;
+    }),
+    vscode.commands.registerCommand('gittoys.stash.refresh', () => stashProvider.refresh())
+  ];
+
+  const repoSelectionDisposable = gitService.onDidChangeSelectedRepository(() => {
+    quickActionsProvider.refresh();
+    stashProvider.refreshIfRepositoryChanged();
+    statusBarManager?.update();
+  });
+
   // Listen for active editor changes to update repository context
   const editorChangeDisposable = vscode.window.onDidChangeActiveTextEditor(() => {
     if (BulkCommitPanel.currentPanel) {
       BulkCommitPanel.currentPanel.refresh();
     }
     quickActionsProvider.refresh();
+    stashProvider.refreshIfRepositoryChanged();
     statusBarManager?.update();
   });
 
   // Listen for Git state changes
   const repoChangeDisposable = gitService.onDidChangeRepository(() => {
     quickActionsProvider.refresh();
+    syncDashboardProvider.refresh();
+    stashProvider.scheduleRefresh();
     statusBarManager?.update();
   });
 
@@ -237,6 +378,17 @@ export async function activate(context: vscode.ExtensionContext) {
     pullCmd,
     undoCmd,
     applyTemplateCmd,
+    pickCoAuthorsCmd,
+    setCommitAuthorCmd,
+    selectRepositoryCmd,
+    fetchAllCmd,
+    pullAllCmd,
+    pushAllCmd,
+    refreshSyncDashboardCmd,
+    openBranchVisualizerCmd,
+    openStashManagerCmd,
+    ...stashCmds,
+    repoSelectionDisposable,
     editorChangeDisposable
   );
 
@@ -244,21 +396,28 @@ export async function activate(context: vscode.ExtensionContext) {
     context.subscriptions.push(repoChangeDisposable);
   }
 
-  // Show welcome message on first activation
+  // Show welcome message on first activation (not awaited, so the API is available right away)
   const hasShownWelcome = context.globalState.get('gittoys.welcomeShown');
   if (!hasShownWelcome) {
-    const action = await vscode.window.showInformationMessage(
+    vscode.window.showInformationMessage(
       'Welcome to GitToys! Use Ctrl+Shift+G B to open Bulk Commit, or Ctrl+Shift+G Q for Quick Actions.',
       'Open Bulk Commit',
       'Quick Actions'
-    );
-    if (action === 'Open Bulk Commit') {
-      vscode.commands.executeCommand('gittoys.openBulkCommit');
-    } else if (action === 'Quick Actions') {
-      vscode.commands.executeCommand('gittoys.openQuickActions');
-    }
-    context.globalState.update('gittoys.welcomeShown', true);
+    ).then(action => {
+      if (action === 'Open Bulk Commit') {
+        vscode.commands.executeCommand('gittoys.openBulkCommit');
+      } else if (action === 'Quick Actions') {
+        vscode.commands.executeCommand('gittoys.openQuickActions');
+      }
+      context.globalState.update('gittoys.welcomeShown', true);
+    });
   }
+
+  // Public API for other extensions
+  return {
+    version: 1,
+    registerCommitMessageProvider: provider => messageProviders.register(provider)
+  };
 }
 
 export function deactivate() {
@@ -0,0 +1,110 @@
+/**
+ * Helpers for working with unified diff text as returned by `Repository.diffWithHEAD(path)`
+ */
+
+export interface DiffHunk {
+  /** Stable id derived from the hunk content (independent of line numbers) */
+  id: string;
+  /** The `@@ -a,b +c,d @@` header line */
+  header: string;
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  /** Body lines, including their leading ' ', '+', '-' or '\' marker */
+  lines: string[];
+}
+
+export interface FileDiff {
+  /** Everything before the first hunk (`diff --git`, `index`, `---`, `+++`) */
+  headerLines: string[];
+  hunks: DiffHunk[];
+}
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+/**
+ * Parse the diff of a single file into its header and hunks
+ */
+export function parseFileDiff(diff: string): FileDiff {
+  const result: FileDiff = { headerLines: [], hunks: [] };
+  // Lines keep their '\r' so patches of files with CRLF endings still apply
+  const lines = diff.replace(/\n$/, '').split('\n');
+  let current: DiffHunk | undefined;
+
+  for (const line of lines) {
+    const match = HUNK_HEADER.exec(line);
+    if (match) {
+      current = {
+        id: '',
+        header: line,
+        oldStart: parseInt(match[1], 10),
+        oldLines: match[2] !== undefined ? parseInt(match[2], 10) : 1,
+        newStart: parseInt(match[3], 10),
+        newLines: match[4] !== undefined ? parseInt(match[4], 10) : 1,
+        lines: []
+      };
+      result.hunks.push(current);
+    } else if (current) {
+      current.lines.push(line);
+    } else if (line.length > 0) {
+      result.headerLines.push(line);
+    }
+  }
+
+  // Ids only depend on the hunk body so they survive line shifts caused by earlier commits
+  const seen = new Map<string, number>();
+  for (const hunk of result.hunks) {
+    const base = hashLines(hunk.lines);
+    const count = seen.get(base) || 0;
+    seen.set(base, count + 1);
+    hunk.id = count === 0 ? base : `${base}-${count}`;
+  }
+
+  return result;
+}
+
+/**
+ * Build a patch containing only the given hunks of a parsed file diff. The new line
+ * numbers are worked out again, as the hunks left out no longer shift the ones after them.
+ */
+export function buildPatch(fileDiff: FileDiff, hunks: DiffHunk[]): string {
+  const lines = [...fileDiff.headerLines];
+  let offset = 0;
+  for (const hunk of hunks) {
+    // An empty side of a hunk points at the line before it
+    const newStart = hunk.oldStart + offset + (hunk.oldLines === 0 ? 1 : 0) - (hunk.newLines === 0 ? 1 : 0);
+    const context = hunk.header.replace(HUNK_HEADER, '');
+    lines.push(`@@ -${hunk.oldStart},${hunk.oldLines} +${newStart},${hunk.newLines} @@${context}`, ...hunk.lines);
+    offset += hunk.newLines - hunk.oldLines;
+  }
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Count added and removed lines in a hunk
+ */
+export function countHunkChanges(hunk: DiffHunk): { additions: number; deletions: number } {
+  let additions = 0;
+  let deletions = 0;
+  for (const line of hunk.lines) {
+    if (line.startsWith('+')) {
+      additions++;
+    } else if (line.startsWith('-')) {
+      deletions++;
+    }
+  }
+  return { additions, deletions };
+}
+
+/**
+ * Small non-cryptographic hash (djb2) used for hunk ids
+ */
+function hashLines(lines: string[]): string {
+  let hash = 5381;
+  const text = lines.join('\n');
+  for (let i = 0; i < text.length; i++) {
+    hash = ((hash << 5) + hash + text.charCodeAt(i)) | 0;
+  }
+  return (hash >>> 0).toString(16);
+}
@@ -1,5 +1,9 @@
 import * as vscode from 'vscode';
-import { API, GitExtension, Repository, Change, Status } from '../types/git';
+import * as cp from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+import { API, GitExtension, Repository, Change, Status, CommitOptions, Commit, RefType } from '../types/git';
+import { DiffHunk, parseFileDiff, buildPatch, countHunkChanges } from './diffParser';
 
 export interface FileChange {
   path: string;
@@ -11,26 +15,182 @@ export interface FileChange {
 
 export type FileStatus = 'modified' | 'added' | 'deleted' | 'renamed' | 'untracked' | 'conflicted';
 
-export interface CommitTask {
+export interface CommitTaskFile {
   filePath: string;
+  /** Ids of the hunks to commit (see `getHunks`); the whole file is committed when omitted */
+  hunks?: string[];
+}
+
+/**
+ * A single commit of a bulk run - one file, or a named group of files sharing a message
+ */
+export interface CommitTask {
+  files: CommitTaskFile[];
   message: string;
+  name?: string;
+  /** Passed to `Repository.commit`, e.g. amend or sign-off */
+  options?: CommitOptions;
+  /** `Name <email>` to use as the author instead of the git user */
+  author?: string;
 }
 
 export interface CommitResult {
   success: boolean;
-  filePath: string;
+  /** Position of the task in the run */
+  index: number;
+  filePaths: string[];
+  name?: string;
   message?: string;
   error?: string;
+  /** Full output of the failed git command, including what the hooks printed */
+  output?: CommandOutput;
+  /** The commit that was created, for successful tasks */
+  commit?: CommitDetails;
+}
+
+export interface CommandOutput {
+  stdout: string;
+  stderr: string;
+}
+
+export interface CommitDetails {
+  hash: string;
+  parent?: string;
+  authorName?: string;
+  authorEmail?: string;
+  date?: Date;
 }
 
 export interface BulkCommitResult {
   successful: CommitResult[];
   failed: CommitResult[];
   totalCommits: number;
+  /** True when an atomic run failed or was cancelled and HEAD and the index were restored */
+  rolledBack: boolean;
+  /** True when the run was cancelled before all tasks were processed */
+  cancelled: boolean;
+}
+
+/**
+ * Per-task progress reported while a bulk commit runs
+ */
+export type CommitProgress =
+  | { status: 'started'; index: number; task: CommitTask }
+  | { status: 'committed'; index: number; task: CommitTask; hash: string }
+  | { status: 'failed'; index: number; task: CommitTask; error: string };
+
+export interface BulkCommitOptions {
+  /** All or nothing: stop at the first failure (or cancellation) and restore HEAD and the index */
+  atomic?: boolean;
+  onProgress?: (progress: CommitProgress) => void;
+  /** Checked between tasks; a task that has started always runs to completion */
+  token?: vscode.CancellationToken;
+}
+
+export interface CommitPlanFile {
+  filePath: string;
+  additions: number;
+  deletions: number;
+  binary: boolean;
+  /** Only some hunks of the file are committed */
+  partial: boolean;
+}
+
+export interface CommitPlanEntry {
+  index: number;
+  name?: string;
+  message: string;
+  files: CommitPlanFile[];
+  warnings: string[];
+}
+
+/**
+ * What a bulk commit would do, computed without touching the index or HEAD
+ */
+export interface BulkCommitPlan {
+  commits: CommitPlanEntry[];
+  warnings: string[];
+}
+
+/**
+ * HEAD and index state recorded before an atomic bulk commit
+ */
+export interface RepositorySnapshot {
+  head: string | undefined;
+  tree: string;
+}
+
+/**
+ * Changes the user had staged before a bulk commit, set aside for the duration of the run
+ */
+interface StagedChanges {
+  /** `git ls-files -s` entries (`mode object stage<TAB>path`) of staged files still in the index */
+  entries: string[];
+  /** Repository-relative paths whose deletion was staged */
+  deleted: string[];
+}
+
+/**
+ * An entry of `git stash list`
+ */
+export interface StashEntry {
+  /** Position in the stash list; 0 is the latest */
+  index: number;
+  /** `stash@{n}` */
+  ref: string;
+  hash: string;
+  message: string;
+  /** Branch the stash was created on */
+  branch?: string;
+  date: Date;
 }
 
-export class GitService {
+export interface StashFile {
+  /** Repository-relative path */
+  path: string;
+  status: FileStatus;
+}
+
+export interface CreateStashOptions {
+  includeUntracked?: boolean;
+  /** Absolute paths to stash; everything is stashed when omitted */
+  paths?: string[];
+}
+
+/**
+ * A branch, remote branch or tag pointing at a commit of the graph
+ */
+export interface GraphRef {
+  name: string;
+  type: 'head' | 'remote' | 'tag';
+  commit: string;
+  /** The checked out branch */
+  current?: boolean;
+}
+
+export interface CommitGraph {
+  /** Newest first, and never a parent before one of its children */
+  commits: Commit[];
+  refs: GraphRef[];
+  /** Whether older commits were left out */
+  hasMore: boolean;
+}
+
+export interface CommitFile {
+  path: string;
+  relativePath: string;
+  status: FileStatus;
+}
+
+/** Hash of git's empty tree, used as the parent of root commits */
+const EMPTY_TREE = '4b825dc642cb6eb9a060e54bf8d69288fbee4904';
+
+export class GitService implements vscode.Disposable {
   private api: API | undefined;
+  /** Root of the repository picked by the user; undefined follows the active editor */
+  private selectedRootPath: string | undefined;
+  private readonly _onDidChangeSelectedRepository = new vscode.EventEmitter<void>();
+  readonly onDidChangeSelectedRepository = this._onDidChangeSelectedRepository.event;
 
   constructor() {}
 
@@ -59,13 +219,21 @@ export class GitService {
   }
 
   /**
-   * Get the active repository (first one, or the one containing the active file)
+   * Get the active repository (the picked one, the one containing the active file, or the first one)
    */
   getActiveRepository(): Repository | undefined {
     if (!this.api || this.api.repositories.length === 0) {
       return undefined;
     }
 
+    // A picked repository wins for as long as it is open
+    if (this.selectedRootPath) {
+      const selected = this.getRepositoryByRoot(this.selectedRootPath);
+      if (selected) {
+        return selected;
+      }
+    }
+
     // If there's an active editor, try to find its repository
     const activeEditor = vscode.window.activeTextEditor;
     if (activeEditor) {
@@ -86,6 +254,32 @@ export class GitService {
     return this.api?.repositories || [];
   }
 
+  getRepositoryByRoot(rootPath: string): Repository | undefined {
+    return this.getRepositories().find(r => r.rootUri.fsPath === rootPath);
+  }
+
+  /**
+   * Get the repository a file belongs to; the innermost one for submodules and nested repositories
+   */
+  getRepositoryForPath(filePath: string): Repository | undefined {
+    return this.api?.getRepository(vscode.Uri.file(filePath)) || undefined;
+  }
+
+  getSelectedRepositoryRoot(): string | undefined {
+    return this.selectedRootPath;
+  }
+
+  /**
+   * Make a repository the active one; undefined goes back to following the active editor
+   */
+  selectRepository(rootPath: string | undefined): void {
+    if (rootPath === this.selectedRootPath) {
+      return;
+    }
+    this.selectedRootPath = rootPath;
+    this._onDidChangeSelectedRepository.fire();
+  }
+
   /**
    * Convert VS Code Git Status to our FileStatus
    */
@@ -95,9 +289,10 @@ export class GitService {
       case Status.MODIFIED:
         return 'modified';
       case Status.INDEX_ADDED:
-      case Status.UNTRACKED:
       case Status.INTENT_TO_ADD:
         return 'added';
+      case Status.UNTRACKED:
+        return 'untracked';
       case Status.INDEX_DELETED:
       case Status.DELETED:
         return 'deleted';
@@ -209,19 +404,19 @@ export class GitService {
   /**
    * Commit staged changes with a message
    */
-  async commit(message: string, repo?: Repository): Promise<void> {
+  async commit(message: string, options?: CommitOptions, repo?: Repository): Promise<void> {
     const repository = repo || this.getActiveRepository();
     if (!repository) {
       throw new Error('No repository found');
     }
 
-    await repository.commit(message);
+    await repository.commit(message, options);
   }
 
   /**
-   * Perform bulk commits - commit each file with its own message
+   * Perform bulk commits - one commit per task in the given order, staging all of the task's files first
    */
-  async bulkCommit(tasks: CommitTask[], repo?: Repository): Promise<BulkCommitResult> {
+  async bulkCommit(tasks: CommitTask[], options: BulkCommitOptions = {}, repo?: Repository): Promise<BulkCommitResult> {
     const repository = repo || this.getActiveRepository();
     if (!repository) {
       throw new Error('No repository found');
@@ -230,37 +425,610 @@ export class GitService {
     const result: BulkCommitResult = {
       successful: [],
       failed: [],
-      totalCommits: tasks.length
+      totalCommits: tasks.length,
+      rolledBack: false,
+      cancelled: false
     };
 
-    for (const task of tasks) {
+    const snapshot = options.atomic ? await this.createSnapshot(repository) : undefined;
+    const stagedChanges = await this.setAsideStagedChanges(repository);
+
+    try {
+      await this.runCommitTasks(tasks, repository, result, options);
+    } finally {
+      if (snapshot && (result.failed.length > 0 || result.cancelled)) {
+        // The snapshot includes the user's staged changes, so nothing else to put back
+        await this.restoreSnapshot(snapshot, repository);
+        result.rolledBack = true;
+      } else {
+        const committed = result.successful.flatMap(r => r.filePaths);
+        await this.restoreStagedChanges(stagedChanges, committed, repository);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Preview a bulk commit: the ordered commits with their files, diffstat and warnings
+   */
+  async previewBulkCommit(tasks: CommitTask[], repo?: Repository): Promise<BulkCommitPlan> {
+    const repository = repo || this.getActiveRepository();
+    if (!repository) {
+      throw new Error('No repository found');
+    }
+
+    const plan: BulkCommitPlan = { commits: [], warnings: [] };
+    const changedFiles = new Map((await this.getChangedFiles(repository)).map(f => [f.path, f]));
+    const wholeFileTasks = new Map<string, number>();
+
+    for (const [index, task] of tasks.entries()) {
+      const entry: CommitPlanEntry = { index, name: task.name, message: task.message, files: [], warnings: [] };
+      const subject = task.message.split('\n')[0];
+
+      if (!subject.trim()) {
+        entry.warnings.push('Commit message is empty');
+      } else if (subject.length > 72) {
+        entry.warnings.push(`Subject is ${subject.length} characters long (over 72)`);
+      }
+      if (task.options?.amend) {
+        entry.warnings.push(index === 0
+          ? 'Amends the current HEAD commit'
+          : `Amends commit ${index} of this run instead of creating a new commit`);
+      }
+      if (task.options?.all) {
+        entry.warnings.push('Also commits every other change to tracked files');
+      }
+
+      for (const file of task.files) {
+        const change = changedFiles.get(file.filePath);
+        const relativePath = this.getRelativePath(file.filePath, repository.rootUri.fsPath);
+        const planFile: CommitPlanFile = { filePath: file.filePath, additions: 0, deletions: 0, binary: false, partial: !!file.hunks };
+        entry.files.push(planFile);
+
+        if (!change) {
+          entry.warnings.push(`${relativePath} has no changes to commit`);
+          continue;
+        }
+        if (change.status === 'conflicted') {
+          entry.warnings.push(`${relativePath} has merge conflicts`);
+        }
+
+        if (!file.hunks) {
+          const previous = wholeFileTasks.get(file.filePath);
+          if (previous !== undefined) {
+            plan.warnings.push(`${relativePath} is committed in full by commit ${previous + 1}, so commit ${index + 1} will have nothing left from it`);
+          }
+          wholeFileTasks.set(file.filePath, index);
+        }
+
+        const stat = await this.getDiffStat(file, change, repository);
+        Object.assign(planFile, stat.counts);
+        if (stat.missingHunks > 0) {
+          entry.warnings.push(`${stat.missingHunks} selected hunk(s) of ${relativePath} are no longer in the diff`);
+        }
+      }
+
+      plan.commits.push(entry);
+    }
+
+    const stagedElsewhere = repository.state.indexChanges
+      .filter(c => !tasks.some(t => t.files.some(f => f.filePath === c.uri.fsPath)));
+    if (stagedElsewhere.length > 0) {
+      plan.warnings.push(`${stagedElsewhere.length} staged file(s) outside this run will be set aside and restored afterwards`);
+    }
+
+    return plan;
+  }
+
+  /**
+   * Count the lines a commit task would add and remove for one file
+   */
+  private async getDiffStat(
+    file: CommitTaskFile,
+    change: FileChange,
+    repository: Repository
+  ): Promise<{ counts: { additions: number; deletions: number; binary: boolean }; missingHunks: number }> {
+    const counts = { additions: 0, deletions: 0, binary: false };
+
+    // Untracked files have no diff with HEAD - count their lines instead
+    if (change.status === 'untracked' || (change.status === 'added' && !change.staged)) {
       try {
-        // Stage the specific file
-        await repository.add([task.filePath]);
+        const content = await vscode.workspace.fs.readFile(vscode.Uri.file(file.filePath));
+        if (content.includes(0)) {
+          counts.binary = true;
+        } else {
+          const text = Buffer.from(content).toString('utf8');
+          counts.additions = text.length === 0 ? 0 : text.split('\n').length - (text.endsWith('\n') ? 1 : 0);
+        }
+      } catch {
+        // Unreadable files are reported without a diffstat
+      }
+      return { counts, missingHunks: 0 };
+    }
+
+    const diff = await this.getDiff(file.filePath, repository);
+    if (/^Binary files /m.test(diff)) {
+      counts.binary = true;
+      return { counts, missingHunks: 0 };
+    }
+
+    const hunks = parseFileDiff(diff).hunks;
+    const included = file.hunks ? hunks.filter(h => file.hunks!.includes(h.id)) : hunks;
+    for (const hunk of included) {
+      const { additions, deletions } = countHunkChanges(hunk);
+      counts.additions += additions;
+      counts.deletions += deletions;
+    }
+
+    return { counts, missingHunks: file.hunks ? file.hunks.length - included.length : 0 };
+  }
+
+  /**
+   * Stage and commit each task in order, recording the outcome in `result`
+   */
+  private async runCommitTasks(tasks: CommitTask[], repository: Repository, result: BulkCommitResult, options: BulkCommitOptions): Promise<void> {
+    for (const [index, task] of tasks.entries()) {
+      if (options.token?.isCancellationRequested) {
+        result.cancelled = true;
+        break;
+      }
+
+      let filePaths = task.files.map(f => f.filePath);
+      options.onProgress?.({ status: 'started', index, task });
+
+      try {
+        // Stage whole files in one go, then the selected hunks of partial files
+        const wholeFiles = task.files.filter(f => !f.hunks).map(f => f.filePath);
+        if (wholeFiles.length > 0) {
+          await repository.add(wholeFiles);
+        }
+        for (const file of task.files) {
+          if (file.hunks) {
+            await this.stageHunks(file.filePath, file.hunks, repository);
+          }
+        }
         
-        // Commit with the file's message
-        await repository.commit(task.message);
+        // Commit with the task's message and options
+        await repository.commit(task.message, task.options);
+        let head = await repository.getCommit('HEAD');
+
+        // The Git extension can't set the author, so amend it onto the new commit
+        if (task.author) {
+          await this.setCommitAuthor(task.author, task.options, repository);
+          head = await repository.getCommit('HEAD');
+        }
+
+        // Committing all tracked changes can take in files outside the task
+        if (task.options?.all) {
+          filePaths = await this.getCommittedPaths(repository);
+        }
 
         result.successful.push({
           success: true,
-          filePath: task.filePath,
-          message: task.message
+          index,
+          filePaths,
+          name: task.name,
+          message: task.message,
+          commit: {
+            hash: head.hash,
+            parent: head.parents[0],
+            authorName: head.authorName,
+            authorEmail: head.authorEmail,
+            date: head.authorDate
+          }
         });
+        options.onProgress?.({ status: 'committed', index, task, hash: head.hash });
       } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : String(error);
+        const output = this.getCommandOutput(error);
+        const errorMessage = this.getCommitErrorMessage(error, output);
         result.failed.push({
           success: false,
-          filePath: task.filePath,
+          index,
+          filePaths,
+          name: task.name,
           message: task.message,
-          error: errorMessage
+          error: errorMessage,
+          output
         });
-        
-        // Continue with next file instead of stopping
-        console.error(`Failed to commit ${task.filePath}:`, errorMessage);
+        console.error(`Failed to commit ${task.name || filePaths.join(', ')}:`, errorMessage);
+        options.onProgress?.({ status: 'failed', index, task, error: errorMessage });
+
+        // Don't let this task's staged files leak into the next commit
+        await repository.revert(filePaths).catch(() => undefined);
+
+        // Atomic runs stop here and roll back; otherwise continue with the next task
+        if (options.atomic) {
+          break;
+        }
       }
     }
+  }
 
-    return result;
+  /**
+   * The stdout and stderr the Git extension attaches to errors of failed git commands.
+   * Hooks write to stderr, so this is where a rejected commit explains itself.
+   */
+  private getCommandOutput(error: unknown): CommandOutput | undefined {
+    const { stdout, stderr } = (error || {}) as { stdout?: unknown; stderr?: unknown };
+    const output = {
+      stdout: typeof stdout === 'string' ? stdout : '',
+      stderr: typeof stderr === 'string' ? stderr : ''
+    };
+    return output.stdout.trim() || output.stderr.trim() ? output : undefined;
+  }
+
+  /**
+   * A one-line reason for a failed commit; the Git extension's own message is often
+   * just "Failed to execute git", so prefer the last line git printed
+   */
+  private getCommitErrorMessage(error: unknown, output: CommandOutput | undefined): string {
+    const lines = (output?.stderr || output?.stdout || '').split('\n').map(l => l.trim()).filter(Boolean);
+    if (lines.length > 0) {
+      return lines[lines.length - 1];
+    }
+    return error instanceof Error ? error.message : String(error);
+  }
+
+  /**
+   * Change the author of HEAD. Hooks already ran for the commit, so they are skipped;
+   * a signed commit is signed again.
+   */
+  private async setCommitAuthor(author: string, options: CommitOptions | undefined, repository: Repository): Promise<void> {
+    const args = ['commit', '--amend', '--no-edit', '--no-verify', '--allow-empty', `--author=${author}`];
+    if (options?.signCommit) {
+      args.push('--gpg-sign');
+    }
+    await this.exec(repository, args);
+    await repository.status();
+  }
+
+  /**
+   * Absolute paths of the files changed by the HEAD commit
+   */
+  private async getCommittedPaths(repository: Repository): Promise<string[]> {
+    const { stdout } = await this.exec(repository, ['diff-tree', '--root', '--no-commit-id', '--name-only', '-r', '-z', 'HEAD']);
+    const rootPath = repository.rootUri.fsPath;
+    return stdout.split('\0').filter(p => p.length > 0).map(p => path.join(rootPath, p));
+  }
+
+  /**
+   * Record HEAD and the index so an atomic bulk commit can be rolled back
+   */
+  async createSnapshot(repo?: Repository): Promise<RepositorySnapshot> {
+    const repository = repo || this.getActiveRepository();
+    if (!repository) {
+      throw new Error('No repository found');
+    }
+
+    const head = await this.exec(repository, ['rev-parse', '--verify', '--quiet', 'HEAD'])
+      .then(r => r.stdout.trim(), () => undefined);
+    const tree = await this.exec(repository, ['write-tree']).catch(error => {
+      throw new Error(`Cannot record the index state: ${error instanceof Error ? error.message : String(error)}`);
+    });
+
+    return { head, tree: tree.stdout.trim() };
+  }
+
+  /**
+   * Move HEAD back to the snapshot and restore its index; the working tree is left untouched
+   */
+  async restoreSnapshot(snapshot: RepositorySnapshot, repo?: Repository): Promise<void> {
+    const repository = repo || this.getActiveRepository();
+    if (!repository) {
+      throw new Error('No repository found');
+    }
+
+    if (snapshot.head) {
+      await this.exec(repository, ['reset', '--soft', snapshot.head]);
+    } else {
+      // The repository had no commits yet - make HEAD unborn again
+      await this.exec(repository, ['update-ref', '-d', 'HEAD']);
+    }
+    await this.exec(repository, ['read-tree', snapshot.tree]);
+    await repository.status();
+  }
+
+  /**
+   * Unstage everything that is currently staged so it cannot leak into an unrelated commit
+   */
+  private async setAsideStagedChanges(repository: Repository): Promise<StagedChanges> {
+    const staged: StagedChanges = { entries: [], deleted: [] };
+
+    const { stdout } = await this.exec(repository, ['diff', '--cached', '--name-only', '--no-renames', '-z']);
+    const paths = stdout.split('\0').filter(p => p.length > 0);
+    if (paths.length === 0) {
+      return staged;
+    }
+
+    const lsFiles = await this.exec(repository, ['ls-files', '--stage', '-z', '--', ...paths]);
+    staged.entries = lsFiles.stdout.split('\0').filter(e => e.length > 0);
+    const present = new Set(staged.entries.map(e => e.slice(e.indexOf('\t') + 1)));
+    staged.deleted = paths.filter(p => !present.has(p));
+
+    const rootPath = repository.rootUri.fsPath;
+    await repository.revert(paths.map(p => path.join(rootPath, p)));
+
+    return staged;
+  }
+
+  /**
+   * Put back staged changes set aside by `setAsideStagedChanges`, except for files that were committed
+   */
+  private async restoreStagedChanges(staged: StagedChanges, committedPaths: string[], repository: Repository): Promise<void> {
+    const rootPath = repository.rootUri.fsPath;
+    const committed = new Set(committedPaths.map(p => this.getRelativePath(p, rootPath)));
+
+    const entries = staged.entries.filter(e => !committed.has(e.slice(e.indexOf('\t') + 1)));
+    const deleted = staged.deleted.filter(p => !committed.has(p));
+
+    if (entries.length > 0) {
+      await this.exec(repository, ['update-index', '-z', '--index-info'], entries.map(e => e + '\0').join(''));
+    }
+    if (deleted.length > 0) {
+      await this.exec(repository, ['update-index', '--force-remove', '--', ...deleted]);
+    }
+    if (entries.length > 0 || deleted.length > 0) {
+      await repository.status();
+    }
+  }
+
+  /**
+   * Run a git command in the repository root with the git binary used by VS Code.
+   * Only for operations the Git extension API does not expose.
+   */
+  private exec(repository: Repository, args: string[], input?: string): Promise<{ stdout: string; stderr: string }> {
+    const gitPath = this.api?.git.path;
+    if (!gitPath) {
+      return Promise.reject(new Error('Git is not available'));
+    }
+
+    return new Promise((resolve, reject) => {
+      const child = cp.execFile(
+        gitPath,
+        args,
+        { cwd: repository.rootUri.fsPath, maxBuffer: 64 * 1024 * 1024 },
+        (error, stdout, stderr) => {
+          if (error) {
+            reject(new Error(stderr.trim() || error.message));
+          } else {
+            resolve({ stdout, stderr });
+          }
+        }
+      );
+      if (input !== undefined) {
+        child.stdin?.end(input);
+      }
+    });
+  }
+
+  /**
+   * Stage only the given hunks of a file, by applying them to the index.
+   * The working tree is never touched.
+   */
+  private async stageHunks(filePath: string, hunkIds: string[], repository: Repository): Promise<void> {
+    const fileDiff = parseFileDiff(await repository.diffWithHEAD(filePath));
+    const selected = fileDiff.hunks.filter(h => hunkIds.includes(h.id));
+    const unselected = fileDiff.hunks.filter(h => !hunkIds.includes(h.id));
+
+    if (selected.length === 0) {
+      throw new Error('None of the selected hunks are present in the current diff');
+    }
+
+    if (unselected.length === 0) {
+      await repository.add([filePath]);
+      return;
+    }
+
+    // The diff is against HEAD, and the file's index entry matches HEAD: staged changes were set aside
+    await this.exec(repository, ['apply', '--cached', '--whitespace=nowarn', '-'], buildPatch(fileDiff, selected));
+    await repository.status();
+  }
+
+  /**
+   * Get the stashes of the repository, latest first
+   */
+  async getStashes(repo?: Repository): Promise<StashEntry[]> {
+    const repository = repo || this.getActiveRepository();
+    if (!repository) {
+      return [];
+    }
+    return this.listStashes(repository, []);
+  }
+
+  /**
+   * Stashes whose message contains the query (ignoring case), or whose changes add or remove it
+   */
+  async searchStashes(query: string, repo?: Repository): Promise<StashEntry[]> {
+    const repository = repo || this.getActiveRepository();
+    if (!repository || !query) {
+      return [];
+    }
+
+    const all = await this.listStashes(repository, []);
+    // -G takes a regex, so the query is escaped to be matched literally
+    const pattern = query.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const byContent = new Set((await this.listStashes(repository, [`-G${pattern}`])).map(s => s.hash));
+    const lowerQuery = query.toLowerCase();
+    return all.filter(s => byContent.has(s.hash) || s.message.toLowerCase().includes(lowerQuery));
+  }
+
+  /**
+   * Files changed by a stash, including the untracked files it holds
+   */
+  async getStashFiles(stash: StashEntry, repo?: Repository): Promise<StashFile[]> {
+    const repository = repo || this.getActiveRepository();
+    if (!repository) {
+      return [];
+    }
+
+    const statuses: Record<string, FileStatus> = { A: 'added', D: 'deleted', R: 'renamed', C: 'added' };
+    const files: StashFile[] = [];
+    const { stdout } = await this.exec(repository, ['diff', '--name-status', '-z', `${stash.hash}^1`, stash.hash]);
+    const fields = stdout.split('\0');
+    for (let i = 0; i < fields.length - 1;) {
+      const code = fields[i++];
+      if (code.startsWith('R') || code.startsWith('C')) {
+        // Renames and copies list the old path, then the new one
+        i++;
+      }
+      files.push({ path: fields[i++], status: statuses[code[0]] || 'modified' });
+    }
+
+    // `git stash -u` keeps untracked files in a third parent
+    if (await this.hasUntrackedParent(stash, repository)) {
+      const untracked = await this.exec(repository, ['ls-tree', '-r', '--name-only', '-z', `${stash.hash}^3`]);
+      untracked.stdout.split('\0').filter(p => p).forEach(p => files.push({ path: p, status: 'untracked' }));
+    }
+    return files;
+  }
+
+  /**
+   * Stash changes with a message; only the given paths when there are any.
+   * Returns the new stash, or undefined when there was nothing to stash.
+   */
+  async createStash(message: string, options: CreateStashOptions = {}, repo?: Repository): Promise<StashEntry | undefined> {
+    const repository = repo || this.getActiveRepository();
+    if (!repository) {
+      throw new Error('No repository found');
+    }
+
+    const args = ['stash', 'push'];
+    if (message) {
+      args.push('-m', message);
+    }
+    if (options.includeUntracked) {
+      args.push('--include-untracked');
+    }
+    if (options.paths && options.paths.length > 0) {
+      const rootPath = repository.rootUri.fsPath;
+      args.push('--', ...options.paths.map(p => this.getRelativePath(p, rootPath)));
+    }
+    // git exits successfully without creating a stash when there is nothing to save
+    const previous = (await this.listStashes(repository, ['-n', '1']))[0];
+    await this.exec(repository, args);
+    await repository.status();
+
+    const latest = (await this.listStashes(repository, ['-n', '1']))[0];
+    return latest && latest.hash !== previous?.hash ? latest : undefined;
+  }
+
+  async applyStash(stash: StashEntry, repo?: Repository): Promise<void> {
+    await this.runStashCommand('apply', stash, repo);
+  }
+
+  /**
+   * Apply a stash and remove it; git keeps it when applying it conflicts
+   */
+  async popStash(stash: StashEntry, repo?: Repository): Promise<void> {
+    await this.runStashCommand('pop', stash, repo);
+  }
+
+  async dropStash(stash: StashEntry, repo?: Repository): Promise<void> {
+    await this.runStashCommand('drop', stash, repo);
+  }
+
+  /**
+   * Change a stash's message. Git can't edit stashes, so it is stored again on top of the list,
+   * then the old entry is dropped - never before the new one exists.
+   */
+  async renameStash(stash: StashEntry, message: string, repo?: Repository): Promise<void> {
+    const repository = repo || this.getActiveRepository();
+    if (!repository) {
+      throw new Error('No repository found');
+    }
+
+    const current = await this.findStash(stash, repository);
+    // Keep the "On <branch>:" prefix git gives stashes, so the branch still shows
+    const stored = current.branch ? `On ${current.branch}: ${message}` : message;
+    await this.exec(repository, ['stash', 'store', '-m', stored, current.hash]);
+    // Storing pushed the old entry one place down
+    await this.exec(repository, ['stash', 'drop', `stash@{${current.index + 1}}`]);
+  }
+
+  /**
+   * Show what a stash changed in one file
+   */
+  async openStashFileDiff(stash: StashEntry, file: StashFile, repo?: Repository): Promise<void> {
+    const repository = repo || this.getActiveRepository();
+    if (!repository || !this.api) {
+      return;
+    }
+
+    const uri = vscode.Uri.file(path.join(repository.rootUri.fsPath, file.path));
+    const title = `${file.path.split('/').pop()} (${stash.ref})`;
+    if (file.status === 'untracked') {
+      await vscode.commands.executeCommand('vscode.open', this.api.toGitUri(uri, `${stash.hash}^3`), {}, title);
+    } else if (file.status === 'added' || file.status === 'deleted') {
+      // One side doesn't exist, so show the other
+      const ref = file.status === 'added' ? stash.hash : `${stash.hash}^1`;
+      await vscode.commands.executeCommand('vscode.open', this.api.toGitUri(uri, ref), {}, title);
+    } else {
+      await vscode.commands.executeCommand('vscode.diff', this.api.toGitUri(uri, `${stash.hash}^1`), this.api.toGitUri(uri, stash.hash), title);
+    }
+  }
+
+  /**
+   * `git stash list` with extra `git log` options, e.g. `-G` to search changes
+   */
+  private async listStashes(repository: Repository, args: string[]): Promise<StashEntry[]> {
+    const { stdout } = await this.exec(repository, ['stash', 'list', '--format=%gd%x00%H%x00%ct%x00%gs%x00', ...args]);
+    const fields = stdout.split('\0');
+    const stashes: StashEntry[] = [];
+    for (let i = 0; i + 3 < fields.length; i += 4) {
+      const ref = fields[i].trim();
+      const subject = fields[i + 3];
+      // "WIP on main: abc1234 last commit" or "On main: message"
+      const match = /^(?:WIP on|On) ([^:]+): (.*)$/s.exec(subject);
+      stashes.push({
+        index: parseInt(/\{(\d+)\}/.exec(ref)?.[1] || '0', 10),
+        ref,
+        hash: fields[i + 1],
+        message: match ? match[2] : subject,
+        branch: match?.[1],
+        date: new Date(parseInt(fields[i + 2], 10) * 1000)
+      });
+    }
+    return stashes;
+  }
+
+  private async hasUntrackedParent(stash: StashEntry, repository: Repository): Promise<boolean> {
+    try {
+      await this.exec(repository, ['rev-parse', '--verify', '--quiet', `${stash.hash}^3`]);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private async runStashCommand(command: 'apply' | 'pop' | 'drop', stash: StashEntry, repo?: Repository): Promise<void> {
+    const repository = repo || this.getActiveRepository();
+    if (!repository) {
+      throw new Error('No repository found');
+    }
+    const current = await this.findStash(stash, repository);
+    await this.exec(repository, ['stash', command, current.ref]);
+    await repository.status();
+  }
+
+  /**
+   * The stash as it is listed now. `stash@{n}` shifts whenever a stash is created or
+   * dropped, so a stash is found again by its hash before acting on it.
+   */
+  private async findStash(stash: StashEntry, repository: Repository): Promise<StashEntry> {
+    const current = (await this.listStashes(repository, [])).find(s => s.hash === stash.hash);
+    if (!current) {
+      throw new Error(`The stash "${stash.message || stash.ref}" no longer exists`);
+    }
+    return current;
+  }
+
+  /**
+   * Get the hunks of a file's diff against HEAD
+   */
+  async getHunks(filePath: string, repo?: Repository): Promise<DiffHunk[]> {
+    const diff = await this.getDiff(filePath, repo);
+    return diff ? parseFileDiff(diff).hunks : [];
   }
 
   /**
@@ -296,15 +1064,38 @@ export class GitService {
   }
 
   /**
-   * Listen for repository state changes
+   * Listen for state changes of every repository, including ones opened later on.
+   * Opening or closing a repository also counts as a change.
    */
   onDidChangeRepository(callback: () => void): vscode.Disposable | undefined {
-    const repo = this.getActiveRepository();
-    if (!repo) {
+    const api = this.api;
+    if (!api) {
       return undefined;
     }
 
-    return repo.state.onDidChange(callback);
+    const subscriptions = new Map<Repository, vscode.Disposable>();
+    const watch = (repo: Repository) => {
+      if (!subscriptions.has(repo)) {
+        subscriptions.set(repo, repo.state.onDidChange(callback));
+      }
+    };
+    api.repositories.forEach(watch);
+
+    const opened = api.onDidOpenRepository(repo => {
+      watch(repo);
+      callback();
+    });
+    const closed = api.onDidCloseRepository(repo => {
+      subscriptions.get(repo)?.dispose();
+      subscriptions.delete(repo);
+      callback();
+    });
+
+    return new vscode.Disposable(() => {
+      opened.dispose();
+      closed.dispose();
+      subscriptions.forEach(s => s.dispose());
+    });
   }
 
   /**
@@ -324,6 +1115,168 @@ export class GitService {
     }
   }
 
+  /**
+   * Open the changes introduced by a commit
+   */
+  async openCommit(hash: string, repo?: Repository): Promise<void> {
+    const repository = repo || this.getActiveRepository();
+    if (!repository || !this.api) {
+      return;
+    }
+
+    const commit = await repository.getCommit(hash);
+    // Root commits are compared against the empty tree
+    const parent = commit.parents[0] || EMPTY_TREE;
+    const changes = await repository.diffBetween(parent, commit.hash);
+    const title = `${commit.hash.substring(0, 7)} - ${commit.message.split('\n')[0]}`;
+
+    const resources = changes.map(change => [change.uri, ...this.getChangeSides(change, parent, commit.hash)]);
+
+    await vscode.commands.executeCommand('vscode.changes', title, resources);
+  }
+
+  /**
+   * Open what a commit changed in one file
+   */
+  async openCommitFileDiff(hash: string, filePath: string, repo?: Repository): Promise<void> {
+    const repository = repo || this.getActiveRepository();
+    if (!repository || !this.api) {
+      return;
+    }
+
+    const commit = await repository.getCommit(hash);
+    const parent = commit.parents[0] || EMPTY_TREE;
+    const change = (await repository.diffBetween(parent, commit.hash)).find(c => c.uri.fsPath === filePath);
+    if (!change) {
+      return;
+    }
+
+    const [left, right] = this.getChangeSides(change, parent, commit.hash);
+    const title = `${path.basename(filePath)} (${commit.hash.substring(0, 7)})`;
+    if (left && right) {
+      await vscode.commands.executeCommand('vscode.diff', left, right, title);
+    } else {
+      await vscode.commands.executeCommand('vscode.open', left || right, {}, title);
+    }
+  }
+
+  /**
+   * Both sides of a change between two commits; undefined for the side where the file doesn't exist
+   */
+  private getChangeSides(change: Change, parent: string, hash: string): [vscode.Uri | undefined, vscode.Uri | undefined] {
+    return [
+      change.status === Status.INDEX_ADDED || change.status === Status.UNTRACKED
+        ? undefined
+        : this.api!.toGitUri(change.originalUri, parent),
+      change.status === Status.DELETED || change.status === Status.INDEX_DELETED
+        ? undefined
+        : this.api!.toGitUri(change.uri, hash)
+    ];
+  }
+
+  /**
+   * Commit and changed files, for the details of a commit
+   */
+  async getCommitDetails(hash: string, repo?: Repository): Promise<{ commit: Commit; files: CommitFile[] } | undefined> {
+    const repository = repo || this.getActiveRepository();
+    if (!repository) {
+      return undefined;
+    }
+
+    const commit = await repository.getCommit(hash);
+    const changes = await repository.diffBetween(commit.parents[0] || EMPTY_TREE, commit.hash);
+    const rootPath = repository.rootUri.fsPath;
+    return {
+      commit,
+      files: changes.map(change => ({
+        path: change.uri.fsPath,
+        relativePath: this.getRelativePath(change.uri.fsPath, rootPath),
+        status: this.convertStatus(change.status)
+      }))
+    };
+  }
+
+  /**
+   * Local and remote branches, tags and a detached HEAD, to draw the commit graph from
+   */
+  async getGraphRefs(repo?: Repository): Promise<GraphRef[]> {
+    const repository = repo || this.getActiveRepository();
+    if (!repository) {
+      return [];
+    }
+
+    const head = repository.state.HEAD;
+    const refs: GraphRef[] = [];
+    if (head?.commit && !head.name) {
+      refs.push({ name: 'HEAD', type: 'head', commit: head.commit, current: true });
+    }
+
+    const branches = await repository.getBranches({ remote: true });
+    for (const branch of branches) {
+      // origin/HEAD only repeats the remote's default branch
+      if (!branch.name || !branch.commit || branch.name.endsWith('/HEAD')) {
+        continue;
+      }
+      const isLocal = branch.type === RefType.Head;
+      refs.push({
+        name: branch.name,
+        type: isLocal ? 'head' : 'remote',
+        commit: branch.commit,
+        current: isLocal && branch.name === head?.name
+      });
+    }
+
+    for (const tag of repository.state.refs) {
+      if (tag.type === RefType.Tag && tag.name && tag.commit) {
+        refs.push({ name: tag.name, type: 'tag', commit: tag.commit });
+      }
+    }
+
+    // The checked out branch is drawn first, so it keeps the leftmost lane
+    return refs.sort((a, b) => Number(!!b.current) - Number(!!a.current));
+  }
+
+  /**
+   * A page of the commits reachable from any of the refs: at most `maxEntries` of them,
+   * after the `skip` newest. Pages of one walk join up as long as no ref moves.
+   */
+  async getCommitGraph(skip: number, maxEntries: number, repo?: Repository): Promise<CommitGraph> {
+    const repository = repo || this.getActiveRepository();
+    if (!repository) {
+      return { commits: [], refs: [], hasMore: false };
+    }
+
+    const refs = await this.getGraphRefs(repository);
+    const tips = Array.from(new Set(refs.map(ref => ref.commit)));
+    if (tips.length === 0) {
+      return { commits: [], refs, hasMore: false };
+    }
+
+    // One more than asked for tells whether older commits are left
+    const { stdout } = await this.exec(repository, [
+      'log', '--date-order', `--skip=${skip}`, `--max-count=${maxEntries + 1}`,
+      '--format=%H%x00%P%x00%an%x00%ae%x00%at%x00%ct%x00%B%x00', ...tips, '--'
+    ]);
+    const fields = stdout.split('\0');
+    const commits: Commit[] = [];
+    for (let i = 0; i + 6 < fields.length; i += 7) {
+      commits.push({
+        hash: fields[i].trim(),
+        parents: fields[i + 1].split(' ').filter(Boolean),
+        authorName: fields[i + 2],
+        authorEmail: fields[i + 3],
+        authorDate: new Date(parseInt(fields[i + 4], 10) * 1000),
+        commitDate: new Date(parseInt(fields[i + 5], 10) * 1000),
+        message: fields[i + 6].trimEnd()
+      });
+    }
+    return {
+      commits: commits.slice(0, maxEntries),
+      refs,
+      hasMore: commits.length > maxEntries
+    };
+  }
+
   /**
    * Push changes to remote
    */
@@ -378,6 +1331,53 @@ export class GitService {
     }
   }
 
+  /**
+   * Fetch, then fast-forward the current branch to its upstream; fails rather than merging.
+   * `pulled` is the number of commits the branch moved by.
+   */
+  async pullFastForward(repo?: Repository): Promise<{ success: boolean; error?: string; pulled?: number }> {
+    const repository = repo || this.getActiveRepository();
+    if (!repository) {
+      return { success: false, error: 'No repository found' };
+    }
+    if (!repository.state.HEAD?.upstream) {
+      return { success: false, error: 'The branch has no upstream' };
+    }
+
+    try {
+      await repository.fetch();
+      const { stdout } = await this.exec(repository, ['rev-list', '--count', 'HEAD..@{upstream}']);
+      const pulled = parseInt(stdout.trim(), 10) || 0;
+      if (pulled > 0) {
+        await this.exec(repository, ['merge', '--ff-only', '@{upstream}']);
+        await repository.status();
+      }
+      return { success: true, pulled };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return { success: false, error: errorMessage };
+    }
+  }
+
+  /**
+   * When the repository last fetched, from the modification time of FETCH_HEAD
+   */
+  async getLastFetchTime(repo?: Repository): Promise<Date | undefined> {
+    const repository = repo || this.getActiveRepository();
+    if (!repository) {
+      return undefined;
+    }
+
+    try {
+      // Submodules and worktrees keep FETCH_HEAD outside of `.git` in the working tree
+      const { stdout } = await this.exec(repository, ['rev-parse', '--git-path', 'FETCH_HEAD']);
+      const stat = await fs.promises.stat(path.resolve(repository.rootUri.fsPath, stdout.trim()));
+      return stat.mtime;
+    } catch {
+      return undefined;
+    }
+  }
+
   /**
    * Get recent commits
    */
@@ -400,6 +1400,44 @@ export class GitService {
     }
   }
 
+  /**
+   * Distinct `Name <email>` authors of the recent commits, most recent first
+   */
+  async getRecentAuthors(count: number = 500, repo?: Repository): Promise<string[]> {
+    const repository = repo || this.getActiveRepository();
+    if (!repository) {
+      return [];
+    }
+
+    try {
+      const commits = await repository.log({ maxEntries: count });
+      const authors = new Map<string, string>();
+      for (const commit of commits) {
+        const email = commit.authorEmail?.toLowerCase();
+        if (commit.authorName && email && !authors.has(email)) {
+          authors.set(email, `${commit.authorName} <${commit.authorEmail}>`);
+        }
+      }
+      return [...authors.values()];
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * The user.email git commits with in the repository
+   */
+  async getUserEmail(repo?: Repository): Promise<string | undefined> {
+    const repository = repo || this.getActiveRepository();
+    if (!repository) {
+      return undefined;
+    }
+
+    return repository.getConfig('user.email')
+      .catch(() => repository.getGlobalConfig('user.email'))
+      .then(email => email.trim() || undefined, () => undefined);
+  }
+
   /**
    * Undo the last commit (soft reset)
    */
@@ -441,6 +1479,15 @@ export class GitService {
     };
   }
 
+  /**
+   * The upstream of the current branch, e.g. `origin/main`
+   */
+  getUpstream(repo?: Repository): string | undefined {
+    const repository = repo || this.getActiveRepository();
+    const upstream = repository?.state.HEAD?.upstream;
+    return upstream ? `${upstream.remote}/${upstream.name}` : undefined;
+  }
+
   /**
    * Check if there are uncommitted changes
    */
@@ -470,4 +1517,8 @@ export class GitService {
     
     return { staged, unstaged, total: staged + unstaged };
   }
+
+  dispose(): void {
+    this._onDidChangeSelectedRepository.dispose();
+  }
 }
@@ -0,0 +1,273 @@
+import * as vscode from 'vscode';
+import { GitService, GraphRef } from '../../git/gitService';
+import { Commit, Repository } from '../../types/git';
+import { layoutGraph } from './graphLayout';
+import { GraphWebviewMessage, GraphExtensionMessage, GraphRefInfo, GraphRowInfo } from '../../types/messages';
+
+/** Commits loaded at first, and added by each "load more" */
+const PAGE_SIZE = 200;
+
+export class BranchVisualizerPanel {
+  public static currentPanel: BranchVisualizerPanel | undefined;
+  private readonly _panel: vscode.WebviewPanel;
+  private readonly _extensionUri: vscode.Uri;
+  private readonly _gitService: GitService;
+  private _disposables: vscode.Disposable[] = [];
+  /** Root of the repository the graph shows; picked when the panel opens or a repository is selected */
+  private _rootPath: string | undefined;
+  /** Commits loaded so far, in the order `git log` walked them */
+  private _commits: Commit[] = [];
+  /** Refs the graph was drawn from, to redraw only when they move */
+  private _refsSignature = '';
+  private _refs: GraphRef[] = [];
+
+  public static createOrShow(extensionUri: vscode.Uri, gitService: GitService) {
+    const column = vscode.window.activeTextEditor?.viewColumn || vscode.ViewColumn.One;
+
+    // If we already have a panel, show it
+    if (BranchVisualizerPanel.currentPanel) {
+      BranchVisualizerPanel.currentPanel._panel.reveal(column);
+      BranchVisualizerPanel.currentPanel._showActiveRepository();
+      return;
+    }
+
+    const panel = vscode.window.createWebviewPanel(
+      'gitToysBranchVisualizer',
+      'GitToys: Branch Visualizer',
+      column,
+      {
+        enableScripts: true,
+        retainContextWhenHidden: true,
+        localResourceRoots: [
+          vscode.Uri.joinPath(extensionUri, 'dist', 'webview')
+        ]
+      }
+    );
+
+    BranchVisualizerPanel.currentPanel = new BranchVisualizerPanel(panel, extensionUri, gitService);
+  }
+
+  private constructor(panel: vscode.WebviewPanel, extensionUri: vscode.Uri, gitService: GitService) {
+    this._panel = panel;
+    this._extensionUri = extensionUri;
+    this._gitService = gitService;
+    this._rootPath = gitService.getRepositoryInfo()?.rootPath;
+
+    this._panel.webview.html = this._getHtmlForWebview();
+
+    this._panel.onDidDispose(() => this.dispose(), null, this._disposables);
+
+    this._panel.webview.onDidReceiveMessage(
+      async (message: GraphWebviewMessage) => {
+        await this._handleMessage(message);
+      },
+      null,
+      this._disposables
+    );
+
+    // Redraw when a commit, checkout or fetch moves a ref; other changes don't affect the graph
+    const repoChangeDisposable = this._gitService.onDidChangeRepository(() => {
+      if (this._getRefsSignature() !== this._refsSignature) {
+        this.refresh();
+      }
+    });
+    if (repoChangeDisposable) {
+      this._disposables.push(repoChangeDisposable);
+    }
+
+    this._disposables.push(this._gitService.onDidChangeSelectedRepository(() => this._showActiveRepository()));
+  }
+
+  public async refresh() {
+    await this._sendGraph();
+  }
+
+  private async _handleMessage(message: GraphWebviewMessage) {
+    switch (message.command) {
+      case 'ready':
+      case 'refresh':
+        await this._sendGraph();
+        break;
+
+      case 'loadMore':
+        await this._sendGraph(true);
+        break;
+
+      case 'selectCommit':
+        await this._sendCommitDetails(message.hash);
+        break;
+
+      case 'openCommit':
+        await this._gitService.openCommit(message.hash, this._getRepository());
+        break;
+
+      case 'openFileDiff':
+        await this._gitService.openCommitFileDiff(message.hash, message.filePath, this._getRepository());
+        break;
+    }
+  }
+
+  private _getRepository(): Repository | undefined {
+    return this._rootPath ? this._gitService.getRepositoryByRoot(this._rootPath) : undefined;
+  }
+
+  /**
+   * Switch to the repository Quick Actions and Bulk Commit use
+   */
+  private async _showActiveRepository() {
+    const rootPath = this._gitService.getRepositoryInfo()?.rootPath;
+    if (rootPath !== this._rootPath) {
+      this._rootPath = rootPath;
+      this._commits = [];
+    }
+    await this._sendGraph();
+  }
+
+  private _getRefsSignature(): string {
+    const state = this._getRepository()?.state;
+    if (!state) {
+      return '';
+    }
+    return [
+      `HEAD ${state.HEAD?.name || ''} ${state.HEAD?.commit || ''}`,
+      ...state.refs.map(ref => `${ref.name} ${ref.commit}`)
+    ].join('\n');
+  }
+
+  /**
+   * Draw the graph again, reloading as many commits as were shown, or add the next page
+   */
+  private async _sendGraph(loadMore = false) {
+    const repository = this._getRepository();
+    if (!repository) {
+      this._postMessage({ type: 'graph', rows: [], hasMore: false, repoInfo: null });
+      return;
+    }
+
+    this._postMessage({ type: 'loading', loading: true });
+    try {
+      // A moved ref changes the walk, so more commits can only be added to an unchanged graph
+      const append = loadMore && this._getRefsSignature() === this._refsSignature;
+      this._refsSignature = this._getRefsSignature();
+      const graph = append
+        ? await this._gitService.getCommitGraph(this._commits.length, PAGE_SIZE, repository)
+        : await this._gitService.getCommitGraph(0, Math.max(this._commits.length + (loadMore ? PAGE_SIZE : 0), PAGE_SIZE), repository);
+      this._refs = graph.refs;
+      this._commits = append ? [...this._commits, ...graph.commits] : graph.commits;
+
+      const layout = layoutGraph(this._commits);
+      const rows: GraphRowInfo[] = this._commits.map((commit, index) => ({
+        hash: commit.hash,
+        message: commit.message,
+        author: commit.authorName || 'Unknown',
+        email: commit.authorEmail,
+        date: (commit.commitDate || commit.authorDate)?.toISOString(),
+        parents: commit.parents,
+        refs: this._getRefsOf(commit.hash),
+        lane: layout[index].lane,
+        segments: layout[index].segments
+      }));
+
+      const info = this._gitService.getRepositoryInfo(repository);
+      this._postMessage({ type: 'graph', rows, hasMore: graph.hasMore, repoInfo: info || null });
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      this._postMessage({ type: 'error', message: `Could not load the history: ${errorMsg}` });
+    } finally {
+      this._postMessage({ type: 'loading', loading: false });
+    }
+  }
+
+  private async _sendCommitDetails(hash: string) {
+    try {
+      const details = await this._gitService.getCommitDetails(hash, this._getRepository());
+      if (!details) {
+        return;
+      }
+      const { commit, files } = details;
+      this._postMessage({
+        type: 'commitDetails',
+        details: {
+          hash: commit.hash,
+          message: commit.message,
+          author: commit.authorName || 'Unknown',
+          email: commit.authorEmail,
+          authorDate: commit.authorDate?.toISOString(),
+          commitDate: commit.commitDate?.toISOString(),
+          parents: commit.parents,
+          refs: this._getRefsOf(commit.hash),
+          files
+        }
+      });
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      this._postMessage({ type: 'error', message: `Could not load commit ${hash.substring(0, 7)}: ${errorMsg}` });
+    }
+  }
+
+  private _getRefsOf(hash: string): GraphRefInfo[] {
+    return this._refs
+      .filter(ref => ref.commit === hash && ref.name !== 'HEAD')
+      .map(({ name, type, current }) => ({ name, type, current }));
+  }
+
+  private _postMessage(message: GraphExtensionMessage) {
+    this._panel.webview.postMessage(message);
+  }
+
+  private _getHtmlForWebview(): string {
+    const webview = this._panel.webview;
+
+    const scriptUri = webview.asWebviewUri(
+      vscode.Uri.joinPath(this._extensionUri, 'dist', 'webview', 'branchVisualizer.js')
+    );
+    const styleUri = webview.asWebviewUri(
+      vscode.Uri.joinPath(this._extensionUri, 'dist', 'webview', 'branchVisualizer.css')
+    );
+
+    // Use a nonce to only allow specific scripts to run
+    const nonce = this._getNonce();
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${webview.cspSource} 'unsafe-inline'; script-src 'nonce-${nonce}'; font-src ${webview.cspSource};">
+  <title>Branch Visualizer</title>
+  <link rel="stylesheet" href="${styleUri}">
+</head>
+<body>
+  <div id="app">
+    <div class="loading-container">
+      <div class="loading-spinner"></div>
+      <p>Loading...</p>
+    </div>
+  </div>
+  <script nonce="${nonce}" src="${scriptUri}"></script>
+</body>
+</html>`;
+  }
+
+  private _getNonce(): string {
+    let text = '';
+    const possible = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+    for (let i = 0; i < 32; i++) {
+      text += possible.charAt(Math.floor(Math.random() * possible.length));
+    }
+    return text;
+  }
+
+  public dispose() {
+    BranchVisualizerPanel.currentPanel = undefined;
+
+    this._panel.dispose();
+
+    while (this._disposables.length) {
+      const disposable = this._disposables.pop();
+      if (disposable) {
+        disposable.dispose();
+      }
+    }
+  }
+}
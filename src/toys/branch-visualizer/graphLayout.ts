@@ -0,0 +1,66 @@
+import { Commit } from '../../types/git';
+import { GraphSegment } from '../../types/messages';
+
+/**
+ * Assigns commits lanes for drawing the commit graph
+ */
+
+export interface GraphLayoutRow {
+  lane: number;
+  segments: GraphSegment[];
+}
+
+/**
+ * Lane of each commit, and the lines that cross its row. Commits come in `git log --date-order`
+ * order, which never puts a parent before one of its children. Each lane waits for the next
+ * commit of a line of history; a commit takes the leftmost lane waiting for it and hands
+ * the lane on to its first parent, so a branch keeps its lane until it joins another.
+ * Merges join the lane of each other parent, or open one.
+ */
+export function layoutGraph(commits: Commit[]): GraphLayoutRow[] {
+  const lanes: (string | undefined)[] = [];
+
+  return commits.map(commit => {
+    let lane = lanes.indexOf(commit.hash);
+    if (lane === -1) {
+      lane = freeLane(lanes);
+    }
+    const before = [...lanes];
+    const segments: GraphSegment[] = [];
+
+    // Every line waiting for this commit ends at it
+    before.forEach((hash, i) => {
+      if (hash === commit.hash) {
+        segments.push({ from: i, to: lane, part: 'top' });
+        lanes[i] = undefined;
+      }
+    });
+
+    commit.parents.forEach((parent, index) => {
+      // Two lanes may wait for the same parent; they meet at it
+      let target = index === 0 ? lane : lanes.indexOf(parent);
+      if (target === -1) {
+        target = freeLane(lanes);
+      }
+      lanes[target] = parent;
+      segments.push({ from: lane, to: target, part: 'bottom' });
+    });
+
+    // Lines of other commits pass by
+    before.forEach((hash, i) => {
+      if (hash && hash !== commit.hash && lanes[i] === hash) {
+        segments.push({ from: i, to: i, part: 'full' });
+      }
+    });
+
+    while (lanes.length > 0 && lanes[lanes.length - 1] === undefined) {
+      lanes.pop();
+    }
+    return { lane, segments };
+  });
+}
+
+function freeLane(lanes: (string | undefined)[]): number {
+  const index = lanes.indexOf(undefined);
+  return index === -1 ? lanes.length : index;
+}
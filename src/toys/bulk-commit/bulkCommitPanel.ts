@@ -1,6 +1,18 @@
 import * as vscode from 'vscode';
-import { GitService } from '../../git/gitService';
-import { WebviewMessage, ExtensionMessage, FileInfo, RepoInfo, BulkCommitResultInfo } from '../../types/messages';
+import { GitService, CommitProgress, CommitResult, CommitTask, BulkCommitPlan, BulkCommitResult, FileChange, StashEntry, RepositorySnapshot } from '../../git/gitService';
+import { countHunkChanges } from '../../git/diffParser';
+import { Repository } from '../../types/git';
+import { loadLintConfig, lintCommitMessage, LintConfig } from './commitLinter';
+import { getTicketSettings, extractTicket, applyTicket } from './ticket';
+import { assembleCommitMessage, getDefaultTrailers, validateTrailers } from './commitMessage';
+import { getDefaultCommitOptions, resolveCommitOptions, toGitCommitOptions, describeCommitOptions } from './commitOptions';
+import { CoAuthorSelection, getCoAuthorRoster, parsePerson } from './coAuthors';
+import { DraftStore } from './draftStore';
+import { createScopeResolver, inferCommitType, formatCommitPrefix, ScopeResolver } from './scopeInference';
+import { suggestCommitMessage } from './messageSuggester';
+import { CommitMessageProviderRegistry, ProvidedSuggestion } from './commitMessageProviders';
+import { CommitMessageContext } from '../../types/api';
+import { WebviewMessage, ExtensionMessage, FileInfo, RepoInfo, RepositoryOption, RepositoryResultInfo, BulkCommitResultInfo, CommitResultInfo, CommitGroupRequest, CommitMessageParts, CommitOptionsInfo, CommitPlanInfo, HunkInfo, LintRequest, FileSuggestionsInfo } from '../../types/messages';
 
 interface CommitTemplate {
   name: string;
@@ -13,9 +25,32 @@ export class BulkCommitPanel {
   private readonly _panel: vscode.WebviewPanel;
   private readonly _extensionUri: vscode.Uri;
   private readonly _gitService: GitService;
+  private readonly _messageProviders: CommitMessageProviderRegistry;
+  private readonly _coAuthors: CoAuthorSelection;
+  private readonly _drafts: DraftStore;
+  /** Draft of the repository and branch the panel shows */
+  private _draftId: string | undefined;
+  /** Show the changes of every repository instead of the active one */
+  private _allRepositories = false;
   private _disposables: vscode.Disposable[] = [];
+  private _commitCancellation: vscode.CancellationTokenSource | undefined;
+  private _lastResult: BulkCommitResultInfo | undefined;
+  /** Tasks of the last run, kept so failed commits can be retried */
+  private _lastTasks: CommitTask[] = [];
+  private _pendingRun: { commits: CommitTask[]; atomic: boolean } | undefined;
+  private _webviewReady = false;
+  private _pendingTemplate: string | undefined;
+  private _suggestionCancellation: vscode.CancellationTokenSource | undefined;
+  /** Stashes of files set aside from the panel, offered back once the next run completes */
+  private _parkedStashes: { stash: StashEntry; repository: Repository | undefined; fileCount: number }[] = [];
 
-  public static createOrShow(extensionUri: vscode.Uri, gitService: GitService) {
+  public static createOrShow(
+    extensionUri: vscode.Uri,
+    gitService: GitService,
+    messageProviders: CommitMessageProviderRegistry,
+    coAuthors: CoAuthorSelection,
+    drafts: DraftStore
+  ) {
     const column = vscode.window.activeTextEditor?.viewColumn || vscode.ViewColumn.One;
 
     // If we already have a panel, show it
@@ -40,13 +75,23 @@ export class BulkCommitPanel {
       }
     );
 
-    BulkCommitPanel.currentPanel = new BulkCommitPanel(panel, extensionUri, gitService);
+    BulkCommitPanel.currentPanel = new BulkCommitPanel(panel, extensionUri, gitService, messageProviders, coAuthors, drafts);
   }
 
-  private constructor(panel: vscode.WebviewPanel, extensionUri: vscode.Uri, gitService: GitService) {
+  private constructor(
+    panel: vscode.WebviewPanel,
+    extensionUri: vscode.Uri,
+    gitService: GitService,
+    messageProviders: CommitMessageProviderRegistry,
+    coAuthors: CoAuthorSelection,
+    drafts: DraftStore
+  ) {
     this._panel = panel;
     this._extensionUri = extensionUri;
     this._gitService = gitService;
+    this._messageProviders = messageProviders;
+    this._coAuthors = coAuthors;
+    this._drafts = drafts;
 
     // Set the webview's initial html content
     this._panel.webview.html = this._getHtmlForWebview();
@@ -70,6 +115,18 @@ export class BulkCommitPanel {
     if (repoChangeDisposable) {
       this._disposables.push(repoChangeDisposable);
     }
+
+    // The repository can also be picked from Quick Actions
+    this._disposables.push(this._gitService.onDidChangeSelectedRepository(() => {
+      this._allRepositories = false;
+      this.refresh();
+    }));
+
+    // Co-authors can also be picked from Quick Actions
+    this._disposables.push(this._coAuthors.onDidChange(() => {
+      this._sendAuthors();
+      this._postMessage({ type: 'relint' });
+    }));
   }
 
   public async refresh() {
@@ -77,38 +134,127 @@ export class BulkCommitPanel {
   }
 
   /**
-   * Apply a commit template prefix to all selected files
+   * Apply a commit template prefix to all selected files; placeholders are expanded by the webview
    */
   public applyTemplate(template: string) {
+    // A panel that was just opened gets the template once its files have loaded
+    if (!this._webviewReady) {
+      this._pendingTemplate = template;
+      return;
+    }
     this._postMessage({ type: 'applyTemplate', template });
   }
 
   private async _handleMessage(message: WebviewMessage) {
     switch (message.command) {
       case 'ready':
+        this._webviewReady = true;
+        await this._sendChangedFiles();
+        await this._sendAuthors();
+        if (this._pendingTemplate !== undefined) {
+          this.applyTemplate(this._pendingTemplate);
+          this._pendingTemplate = undefined;
+        }
+        break;
+
+      case 'setCoAuthors':
+        await this._coAuthors.setCoAuthors(message.coAuthors.map(parsePerson).filter((p): p is string => !!p));
+        break;
+
+      case 'setAuthor':
+        await this._coAuthors.setAuthor(message.author ? parsePerson(message.author) : undefined);
+        break;
+
+      case 'saveDraft':
+        await this._drafts.save(message.rootPath, message.branch, message.draft);
+        break;
+
+      case 'getDrafts':
+        this._sendDrafts();
+        break;
+
+      case 'restoreDraft':
+        await this._restoreDraft(message.id);
+        break;
+
+      case 'discardDraft':
+        await this._discardDraft(message.id);
+        break;
+
+      case 'selectRepository':
+        await this._selectRepository(message.rootPath);
+        break;
+
       case 'getChangedFiles':
       case 'refresh':
         await this._sendChangedFiles();
         break;
 
       case 'commitFiles':
-        await this._commitFiles(message.commits);
+        await this._commitFiles(message.groups, message.atomic, message.options);
+        break;
+
+      case 'confirmCommit':
+        if (this._pendingRun) {
+          const { commits, atomic } = this._pendingRun;
+          this._pendingRun = undefined;
+          await this._runBulkCommit(commits, atomic);
+        }
+        break;
+
+      case 'discardPlan':
+        this._pendingRun = undefined;
+        break;
+
+      case 'cancelCommit':
+        this._commitCancellation?.cancel();
+        break;
+
+      case 'openCommit':
+        await this._gitService.openCommit(
+          message.hash,
+          message.rootPath ? this._gitService.getRepositoryByRoot(message.rootPath) : undefined
+        );
+        break;
+
+      case 'copyResultSummary':
+        await this._copyResultSummary();
+        break;
+
+      case 'retryCommit':
+        await this._retryCommit(message.index, message.noVerify);
         break;
 
       case 'openDiff':
-        await this._gitService.openDiff(message.filePath);
+        await this._gitService.openDiff(message.filePath, this._getRepository(message.filePath));
+        break;
+
+      case 'getHunks':
+        await this._sendHunks(message.filePath);
+        break;
+
+      case 'lintMessages':
+        await this._lintMessages(message.items);
+        break;
+
+      case 'getSuggestions':
+        await this._sendSuggestions(message.filePaths);
         break;
 
       case 'stageFile':
-        await this._gitService.stageFiles([message.filePath]);
+        await this._gitService.stageFiles([message.filePath], this._getRepository(message.filePath));
         await this._sendChangedFiles();
         break;
 
       case 'unstageFile':
-        await this._gitService.unstageFiles([message.filePath]);
+        await this._gitService.unstageFiles([message.filePath], this._getRepository(message.filePath));
         await this._sendChangedFiles();
         break;
 
+      case 'stashFiles':
+        await this._stashFiles(message.filePaths);
+        break;
+
       case 'getTemplates':
         this._sendTemplates();
         break;
@@ -125,48 +271,394 @@ export class BulkCommitPanel {
     this._postMessage({ type: 'templates', templates });
   }
 
-  private async _pushAfterCommit() {
-    const result = await this._gitService.push();
-    if (result.success) {
-      vscode.window.showInformationMessage('GitToys: Push successful');
-    } else {
-      vscode.window.showErrorMessage(`GitToys: Push failed - ${result.error}`);
+  /**
+   * Push the active repository, or each repository a run committed to
+   */
+  private async _pushAfterCommit(repositories: (Repository | undefined)[] = [undefined]) {
+    for (const repository of repositories) {
+      const name = repositories.length > 1 ? ` ${this._gitService.getRepositoryInfo(repository)?.name}` : '';
+      const result = await this._gitService.push(repository);
+      if (result.success) {
+        vscode.window.showInformationMessage(`GitToys: Push${name} successful`);
+      } else {
+        vscode.window.showErrorMessage(`GitToys: Push${name} failed - ${result.error}`);
+      }
+    }
+  }
+
+  /**
+   * Stash only the given files, one stash per repository, so the rest can be committed without them
+   */
+  private async _stashFiles(filePaths: string[]) {
+    let stashedCount = 0;
+    try {
+      for (const { repository, indexes } of this._groupByRepository(filePaths)) {
+        // Files committed or reverted since the panel listed them can't be stashed
+        const selected = indexes.map(i => filePaths[i]);
+        const changes = (await this._gitService.getChangedFiles(repository)).filter(c => selected.includes(c.path));
+        if (changes.length === 0) {
+          continue;
+        }
+        const stash = await this._gitService.createStash(
+          `Bulk Commit: ${changes.map(c => c.relativePath).join(', ')}`,
+          // Untracked files are only stashed when git is told to include them
+          { includeUntracked: changes.some(c => c.status === 'untracked'), paths: changes.map(c => c.path) },
+          repository
+        );
+        if (stash) {
+          const fileCount = (await this._gitService.getStashFiles(stash, repository)).length;
+          this._parkedStashes.push({ stash, repository, fileCount });
+          stashedCount += fileCount;
+        }
+      }
+      if (stashedCount > 0) {
+        vscode.window.showInformationMessage(`GitToys: Stashed ${stashedCount} file(s); you can unstash them once the bulk commit completes`);
+      } else {
+        vscode.window.showInformationMessage('GitToys: No changes to stash');
+      }
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      vscode.window.showErrorMessage(`GitToys: Stash failed - ${errorMsg}`);
+    }
+    await this._sendChangedFiles();
+  }
+
+  /**
+   * Offer to bring back the files stashed from the panel, once a run completes
+   */
+  private async _offerUnstash() {
+    const parked = this._parkedStashes;
+    if (parked.length === 0) {
+      return;
+    }
+    this._parkedStashes = [];
+
+    const fileCount = parked.reduce((sum, p) => sum + p.fileCount, 0);
+    const action = await vscode.window.showInformationMessage(
+      `GitToys: ${fileCount} file(s) were stashed before this commit. Unstash them now?`,
+      'Unstash',
+      'Keep Stashed'
+    );
+    if (action !== 'Unstash') {
+      return;
+    }
+
+    for (const { stash, repository } of parked) {
+      // Other stashes may have been created since; popping finds the stash again by its hash
+      try {
+        await this._gitService.popStash(stash, repository);
+      } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : String(error);
+        vscode.window.showErrorMessage(`GitToys: Unstash failed - ${errorMsg}. The stash was kept.`);
+      }
+    }
+    if (BulkCommitPanel.currentPanel === this) {
+      await this._sendChangedFiles();
+    }
+  }
+
+  /**
+   * Show one repository, which Quick Actions then uses as well, or all of them for `null`
+   */
+  private async _selectRepository(rootPath: string | null) {
+    if (rootPath !== null && rootPath !== this._gitService.getSelectedRepositoryRoot()) {
+      // Refreshes the panel through onDidChangeSelectedRepository
+      this._gitService.selectRepository(rootPath);
+      return;
+    }
+    this._allRepositories = rootPath === null;
+    await this._sendChangedFiles();
+  }
+
+  /**
+   * Repositories whose changes the panel shows
+   */
+  private _getRepositories(): Repository[] {
+    if (this._allRepositories) {
+      return this._gitService.getRepositories();
+    }
+    const repository = this._gitService.getActiveRepository();
+    return repository ? [repository] : [];
+  }
+
+  /**
+   * The repository of a file in the panel; the active one when no file is given
+   */
+  private _getRepository(filePath?: string): Repository | undefined {
+    return (filePath && this._gitService.getRepositoryForPath(filePath)) || this._gitService.getActiveRepository();
+  }
+
+  /**
+   * Split the commits of a run by repository (given one file of each commit), in the order
+   * the repositories first appear
+   */
+  private _groupByRepository(filePaths: string[]): { repository: Repository | undefined; indexes: number[] }[] {
+    const groups: { repository: Repository | undefined; indexes: number[] }[] = [];
+    filePaths.forEach((filePath, index) => {
+      const repository = this._getRepository(filePath);
+      const group = groups.find(g => g.repository === repository);
+      if (group) {
+        group.indexes.push(index);
+      } else {
+        groups.push({ repository, indexes: [index] });
+      }
+    });
+    return groups;
+  }
+
+  /**
+   * Load the lint config of each repository once
+   */
+  private _createLintConfigLoader(): (filePath?: string) => Promise<LintConfig> {
+    const configs = new Map<string, Promise<LintConfig>>();
+    return filePath => {
+      const rootPath = this._getRepository(filePath)?.rootUri.fsPath;
+      let config = configs.get(rootPath || '');
+      if (!config) {
+        config = loadLintConfig(rootPath);
+        configs.set(rootPath || '', config);
+      }
+      return config;
+    };
+  }
+
+  private async _sendHunks(filePath: string) {
+    const hunks = await this._gitService.getHunks(filePath, this._getRepository(filePath));
+    const hunkInfos: HunkInfo[] = hunks.map(h => ({
+      id: h.id,
+      header: h.header,
+      lines: h.lines,
+      ...countHunkChanges(h)
+    }));
+    this._postMessage({ type: 'hunks', filePath, hunks: hunkInfos });
+  }
+
+  private async _lintMessages(items: LintRequest[]) {
+    const loadConfig = this._createLintConfigLoader();
+    const results = await Promise.all(items.map(async item => ({
+      key: item.key,
+      violations: [
+        ...lintCommitMessage(this._assembleMessage(item.message, item.filePath), await loadConfig(item.filePath)),
+        ...validateTrailers(item.message.trailers)
+      ]
+    })));
+    this._postMessage({ type: 'lintResults', results });
+  }
+
+  /**
+   * Send the built-in suggestions for all files at once, then each file's
+   * suggestions from registered providers as they arrive
+   */
+  private async _sendSuggestions(filePaths: string[]) {
+    // A newer request supersedes this one
+    this._suggestionCancellation?.cancel();
+    const cancellation = new vscode.CancellationTokenSource();
+    this._suggestionCancellation = cancellation;
+
+    // Changes and scopes of each repository the files belong to
+    const repositories = new Map<Repository, { files: FileChange[]; resolveScope: ScopeResolver }>();
+    const builtIn: FileSuggestionsInfo[] = [];
+    const contexts: CommitMessageContext[] = [];
+
+    for (const filePath of filePaths) {
+      const repository = this._getRepository(filePath);
+      const repoInfo = this._gitService.getRepositoryInfo(repository);
+      if (!repository || !repoInfo) {
+        continue;
+      }
+      let changes = repositories.get(repository);
+      if (!changes) {
+        changes = {
+          files: await this._gitService.getChangedFiles(repository),
+          resolveScope: await createScopeResolver(repoInfo.rootPath)
+        };
+        repositories.set(repository, changes);
+      }
+
+      const file = changes.files.find(f => f.path === filePath);
+      if (!file) {
+        continue;
+      }
+      const diff = file.status === 'untracked' ? '' : await this._gitService.getDiff(filePath, repository);
+      const scope = changes.resolveScope(file.relativePath);
+      const suggestion = suggestCommitMessage({ relativePath: file.relativePath, status: file.status, diff, scope });
+      builtIn.push({ filePath, suggestions: [{ message: suggestion.message, source: 'GitToys' }] });
+      contexts.push({
+        repositoryRoot: vscode.Uri.file(repoInfo.rootPath),
+        uri: vscode.Uri.file(filePath),
+        relativePath: file.relativePath,
+        status: file.status,
+        diff,
+        branch: repoInfo.branch,
+        scope
+      });
+    }
+
+    if (cancellation.token.isCancellationRequested) {
+      return;
     }
+    this._postMessage({ type: 'suggestions', suggestions: builtIn });
+
+    if (this._messageProviders.size === 0) {
+      return;
+    }
+    await Promise.all(contexts.map(async (context, i) => {
+      const provided = await this._messageProviders.provide(context, cancellation.token);
+      if (provided.length > 0 && !cancellation.token.isCancellationRequested) {
+        const all: ProvidedSuggestion[] = [...builtIn[i].suggestions];
+        provided.forEach(s => {
+          if (!all.some(existing => existing.message === s.message)) {
+            all.push(s);
+          }
+        });
+        this._postMessage({ type: 'suggestions', suggestions: [{ filePath: builtIn[i].filePath, suggestions: all }] });
+      }
+    }));
+  }
+
+  /**
+   * Assemble the full message from the panel's parts, with the default trailers and the
+   * branch's ticket of the repository the commit's file belongs to
+   */
+  private _assembleMessage(parts: CommitMessageParts, filePath?: string): string {
+    const repository = this._getRepository(filePath);
+    const trailers = [
+      ...getDefaultTrailers(repository?.rootUri.fsPath),
+      ...this._coAuthors.coAuthors.map(person => ({ key: 'Co-authored-by', value: person }))
+    ];
+    return this._withTicket(assembleCommitMessage(parts, trailers), repository);
+  }
+
+  /**
+   * Send the co-author roster with the current co-authors and author
+   */
+  private async _sendAuthors() {
+    const roster = await getCoAuthorRoster(this._gitService, this._gitService.getRepositoryInfo()?.rootPath);
+    this._postMessage({
+      type: 'authors',
+      roster,
+      coAuthors: this._coAuthors.coAuthors,
+      author: this._coAuthors.author
+    });
+  }
+
+  /**
+   * Add the branch's ticket ID to a message, as configured for the repository
+   */
+  private _withTicket(message: string, repository?: Repository): string {
+    const repoInfo = this._gitService.getRepositoryInfo(repository);
+    if (!repoInfo) {
+      return message;
+    }
+    const settings = getTicketSettings(repoInfo.rootPath);
+    return applyTicket(message, extractTicket(repoInfo.branch, settings.pattern), settings);
+  }
+
+  private _sendDrafts() {
+    this._postMessage({ type: 'drafts', drafts: this._drafts.list(), currentId: this._draftId });
+  }
+
+  /**
+   * Merge a draft of another branch or repository into the current one; it is removed afterwards
+   */
+  private async _restoreDraft(id: string) {
+    const draft = this._drafts.get(id);
+    if (!draft || id === this._draftId) {
+      return;
+    }
+    this._postMessage({ type: 'draft', draft, merge: true });
+    await this._drafts.delete(id);
+    this._sendDrafts();
+  }
+
+  private async _discardDraft(id: string) {
+    const summary = this._drafts.list().find(d => d.id === id);
+    if (!summary) {
+      return;
+    }
+    const confirm = await vscode.window.showWarningMessage(
+      `Discard the draft of ${summary.repoName} (${summary.branch}) with ${summary.messageCount} message(s)?`,
+      { modal: true },
+      'Discard'
+    );
+    if (confirm !== 'Discard') {
+      return;
+    }
+    await this._drafts.delete(id);
+    if (id === this._draftId) {
+      this._postMessage({ type: 'draft', draft: null });
+    }
+    this._sendDrafts();
   }
 
   private async _sendChangedFiles() {
     try {
       this._postMessage({ type: 'loading', loading: true });
 
-      const files = await this._gitService.getChangedFiles();
-      const repoInfo = this._gitService.getRepositoryInfo();
+      const repositories = this._getRepositories();
+      const fileInfos: FileInfo[] = [];
+      for (const repository of repositories) {
+        const info = this._toRepoInfo(repository);
+        const files = await this._gitService.getChangedFiles(repository);
+        const resolveScope = await createScopeResolver(info.rootPath);
+        fileInfos.push(...files.map(f => {
+          const scope = resolveScope(f.relativePath);
+          return {
+            path: f.path,
+            relativePath: f.relativePath,
+            status: f.status,
+            staged: f.staged,
+            uri: f.uri,
+            scope,
+            suggestedPrefix: formatCommitPrefix(inferCommitType(f.relativePath, f.status), scope),
+            repository: this._allRepositories ? info : undefined
+          };
+        }));
+      }
 
-      const fileInfos: FileInfo[] = files.map(f => ({
-        path: f.path,
-        relativePath: f.relativePath,
-        status: f.status,
-        staged: f.staged,
-        uri: f.uri
-      }));
+      // Showing every repository has no single root, branch or ticket
+      const repoInfo = this._allRepositories ? undefined : this._gitService.getRepositoryInfo();
+      const ticketSettings = getTicketSettings(repoInfo?.rootPath);
+      const repoInfoMsg: RepoInfo | null = repoInfo
+        ? this._toRepoInfo()
+        : this._allRepositories && repositories.length > 0 ? { name: 'All repositories', branch: '', rootPath: '' } : null;
 
-      const repoInfoMsg: RepoInfo | null = repoInfo ? {
-        name: repoInfo.name,
-        branch: repoInfo.branch,
-        rootPath: repoInfo.rootPath
-      } : null;
+      // Opening the panel or switching repository or branch loads that branch's draft
+      const draftId = repoInfoMsg ? DraftStore.getId(repoInfoMsg.rootPath, repoInfoMsg.branch) : undefined;
+      if (draftId !== this._draftId) {
+        this._draftId = draftId;
+        this._postMessage({ type: 'draft', draft: (draftId && this._drafts.get(draftId)) || null });
+      }
+
+      const repositoryOptions: RepositoryOption[] = this._gitService.getRepositories().map(repository => {
+        const { name, branch, rootPath } = this._toRepoInfo(repository);
+        return { name, branch, rootPath, changes: this._gitService.getChangesCount(repository).total };
+      });
 
       // Also send templates and settings
       const config = vscode.workspace.getConfiguration('gittoys');
       const templates = config.get<CommitTemplate[]>('bulkCommit.templates', []);
       const pushAfterCommit = config.get<boolean>('bulkCommit.pushAfterCommit', false);
       const confirmBeforeCommit = config.get<boolean>('bulkCommit.confirmBeforeCommit', true);
+      const atomic = config.get<boolean>('bulkCommit.atomic', false);
+      const prefillScope = config.get<boolean>('bulkCommit.prefillScope', false);
 
       this._postMessage({ 
         type: 'changedFiles', 
         files: fileInfos, 
         repoInfo: repoInfoMsg,
+        repositories: repositoryOptions,
         templates,
-        settings: { pushAfterCommit, confirmBeforeCommit }
+        settings: {
+          pushAfterCommit,
+          confirmBeforeCommit,
+          atomic,
+          prefillScope,
+          ticketPlacement: ticketSettings.placement,
+          ticketTrailer: ticketSettings.trailer,
+          defaultTrailers: getDefaultTrailers(repoInfo?.rootPath).map(t => `${t.key}: ${t.value}`),
+          commitOptions: getDefaultCommitOptions(repoInfo?.rootPath)
+        }
       });
     } catch (error) {
       const errorMsg = error instanceof Error ? error.message : String(error);
@@ -176,77 +668,409 @@ export class BulkCommitPanel {
     }
   }
 
-  private async _commitFiles(commits: { filePath: string; message: string }[]) {
+  private _toRepoInfo(repository?: Repository): RepoInfo {
+    const info = this._gitService.getRepositoryInfo(repository) || { name: 'Unknown', branch: 'Unknown', rootPath: '' };
+    return {
+      ...info,
+      ticket: extractTicket(info.branch, getTicketSettings(info.rootPath).pattern)
+    };
+  }
+
+  private async _commitFiles(commits: CommitGroupRequest[], atomic?: boolean, runOptions?: CommitOptionsInfo) {
     if (commits.length === 0) {
       vscode.window.showWarningMessage('No files selected for commit.');
       return;
     }
 
-    // Confirmation dialog
     const config = vscode.workspace.getConfiguration('gittoys');
     const confirmBeforeCommit = config.get<boolean>('bulkCommit.confirmBeforeCommit', true);
-    
-    if (confirmBeforeCommit) {
-      const confirm = await vscode.window.showWarningMessage(
-        `Create ${commits.length} commit(s)?`,
-        { modal: true },
-        'Commit'
-      );
-      if (confirm !== 'Commit') {
-        return;
-      }
+    const allOrNothing = atomic ?? config.get<boolean>('bulkCommit.atomic', false);
+
+    // Filter out commits without a subject; the commits of each repository run together
+    const filled = commits.filter(c => c.message.subject.trim().length > 0 && c.files.length > 0);
+    const requests = this._groupByRepository(filled.map(c => c.files[0].filePath))
+      .flatMap(group => group.indexes.map(i => filled[i]));
+
+    // A commit can't span repositories
+    const spanning = requests.find(c => c.files.some(f => this._getRepository(f.filePath) !== this._getRepository(c.files[0].filePath)));
+    if (spanning) {
+      const label = this._getCommitLabel(spanning);
+      vscode.window.showErrorMessage(`GitToys: ${label} has files of several repositories. Split it into one commit per repository.`);
+      return;
     }
 
-    // Filter out commits without messages
-    const validCommits = commits.filter(c => c.message.trim().length > 0);
+    // Each message is assembled with the trailers and the branch's ticket of its repository, and
+    // the options the user toggled for the run go over that repository's defaults
+    const options: CommitOptionsInfo[] = [];
+    for (const { repository, indexes } of this._groupByRepository(requests.map(c => c.files[0].filePath))) {
+      const run = { ...getDefaultCommitOptions(repository?.rootUri.fsPath), ...runOptions };
+      resolveCommitOptions(run, indexes.map(i => requests[i].options)).forEach((resolved, i) => {
+        options[indexes[i]] = resolved;
+      });
+    }
+    const validCommits: CommitTask[] = requests.map((c, i) => ({
+      name: c.name,
+      files: c.files,
+      message: this._assembleMessage(c.message, c.files[0].filePath),
+      options: toGitCommitOptions(options[i]),
+      author: this._coAuthors.author
+    }));
     if (validCommits.length === 0) {
       vscode.window.showWarningMessage('All selected files need commit messages.');
       return;
     }
 
+    // Error-level lint violations and malformed trailers block the whole run
+    const loadConfig = this._createLintConfigLoader();
+    const lintErrors: string[] = [];
+    const sources = new Set<string>();
+    for (const [i, commit] of validCommits.entries()) {
+      const lintConfig = await loadConfig(commit.files[0].filePath);
+      const errors = [...lintCommitMessage(commit.message, lintConfig), ...validateTrailers(requests[i].message.trailers)]
+        .filter(v => v.severity === 'error');
+      if (errors.length > 0 && lintConfig.source) {
+        sources.add(lintConfig.source);
+      }
+      lintErrors.push(...errors.map(v => `${this._getCommitLabel(commit)}: ${v.message} (${v.rule})`));
+    }
+    if (lintErrors.length > 0) {
+      vscode.window.showErrorMessage(
+        `GitToys: ${lintErrors.length} commit message problem${lintErrors.length !== 1 ? 's' : ''} must be fixed before committing.`
+      );
+      const source = sources.size > 0 ? ` (rules from ${Array.from(sources).join(', ')})` : '';
+      this._postMessage({ type: 'error', message: `Commit messages have lint errors${source}:\n${lintErrors.join('\n')}` });
+      return;
+    }
+
+    // Show the plan for review; the run starts once the webview confirms it
+    if (confirmBeforeCommit) {
+      try {
+        const plan = await this._previewBulkCommit(validCommits);
+        this._pendingRun = { commits: validCommits, atomic: allOrNothing };
+        this._postMessage({ type: 'commitPlan', plan: this._toCommitPlanInfo(plan, validCommits, allOrNothing) });
+      } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : String(error);
+        this._postMessage({ type: 'error', message: errorMsg });
+      }
+      return;
+    }
+
+    await this._runBulkCommit(validCommits, allOrNothing);
+  }
+
+  /**
+   * Preview the commits of each repository, as one plan
+   */
+  private async _previewBulkCommit(commits: CommitTask[]): Promise<BulkCommitPlan> {
+    const groups = this._groupByRepository(commits.map(c => c.files[0].filePath));
+    const plan: BulkCommitPlan = { commits: [], warnings: [] };
+    for (const { repository, indexes } of groups) {
+      const repoPlan = await this._gitService.previewBulkCommit(indexes.map(i => commits[i]), repository);
+      const name = this._gitService.getRepositoryInfo(repository)?.name;
+      plan.commits.push(...repoPlan.commits.map(entry => ({ ...entry, index: indexes[entry.index] })));
+      plan.warnings.push(...repoPlan.warnings.map(w => groups.length > 1 ? `${name}: ${w}` : w));
+    }
+    return plan;
+  }
+
+  private _toCommitPlanInfo(plan: BulkCommitPlan, commits: CommitTask[], atomic: boolean): CommitPlanInfo {
+    const config = vscode.workspace.getConfiguration('gittoys');
+    const multiRepo = this._groupByRepository(commits.map(c => c.files[0].filePath)).length > 1;
+    return {
+      commits: plan.commits.map(entry => ({
+        label: this._getCommitLabel(commits[entry.index]),
+        message: entry.message,
+        files: entry.files.map(f => ({
+          relativePath: vscode.workspace.asRelativePath(f.filePath, false),
+          additions: f.additions,
+          deletions: f.deletions,
+          binary: f.binary,
+          partial: f.partial
+        })),
+        warnings: entry.warnings,
+        options: [
+          ...describeCommitOptions(commits[entry.index].options),
+          ...(commits[entry.index].author ? [`Author: ${commits[entry.index].author}`] : [])
+        ],
+        repository: multiRepo ? this._getRepositoryName(commits[entry.index]) : undefined
+      })),
+      warnings: plan.warnings,
+      atomic,
+      pushAfterCommit: config.get<boolean>('bulkCommit.pushAfterCommit', false)
+    };
+  }
+
+  private async _runBulkCommit(validCommits: CommitTask[], allOrNothing: boolean) {
+    this._commitCancellation = new vscode.CancellationTokenSource();
+    this._lastTasks = validCommits;
+
     try {
       this._postMessage({ type: 'loading', loading: true });
+      // The commits of each repository are a run of their own. All or nothing stops at the first
+      // repository that rolls back and undoes the commits of the repositories before it.
+      const groups = this._groupByRepository(validCommits.map(c => c.files[0].filePath));
+      const multiRepo = groups.length > 1;
+      this._postMessage({
+        type: 'commitRunStarted',
+        labels: validCommits.map(c => this._getCommitLabel(c)),
+        repositories: multiRepo ? validCommits.map(c => this._getRepositoryName(c)) : undefined
+      });
 
-      const result = await this._gitService.bulkCommit(validCommits);
+      const result: BulkCommitResult = {
+        successful: [],
+        failed: [],
+        totalCommits: validCommits.length,
+        rolledBack: false,
+        cancelled: false
+      };
+      const repositories: RepositoryResultInfo[] = [];
+      const committedTo: Repository[] = [];
+      const snapshots: { repository: Repository | undefined; snapshot: RepositorySnapshot; entry: RepositoryResultInfo }[] = [];
+      for (const { repository, indexes } of groups) {
+        const snapshot = allOrNothing && multiRepo ? await this._gitService.createSnapshot(repository) : undefined;
+        const repoResult = await this._gitService.bulkCommit(indexes.map(i => validCommits[i]), {
+          atomic: allOrNothing,
+          token: this._commitCancellation.token,
+          onProgress: progress => this._postProgress({ ...progress, index: indexes[progress.index] })
+        }, repository);
+
+        const toRunIndex = (r: CommitResult): CommitResult => ({ ...r, index: indexes[r.index] });
+        result.successful.push(...repoResult.successful.map(toRunIndex));
+        result.failed.push(...repoResult.failed.map(toRunIndex));
+        result.rolledBack = result.rolledBack || repoResult.rolledBack;
+        result.cancelled = result.cancelled || repoResult.cancelled;
+
+        const info = this._toRepoInfo(repository);
+        const entry: RepositoryResultInfo = {
+          name: info.name,
+          rootPath: info.rootPath,
+          successful: repoResult.rolledBack ? 0 : repoResult.successful.length,
+          failed: repoResult.failed.length,
+          rolledBack: repoResult.rolledBack
+        };
+        repositories.push(entry);
+        if (repository && repoResult.successful.length > 0 && !repoResult.rolledBack) {
+          committedTo.push(repository);
+        }
+        if (snapshot) {
+          snapshots.push({ repository, snapshot, entry });
+        }
+
+        if (repoResult.rolledBack && snapshots.length > 0) {
+          for (const earlier of snapshots.filter(s => !s.entry.rolledBack)) {
+            await this._gitService.restoreSnapshot(earlier.snapshot, earlier.repository);
+            earlier.entry.successful = 0;
+            earlier.entry.rolledBack = true;
+          }
+          committedTo.length = 0;
+          break;
+        }
+      }
 
       const resultInfo: BulkCommitResultInfo = {
         successful: result.successful.length,
         failed: result.failed.length,
         total: result.totalCommits,
-        errors: result.failed.map(f => `${f.filePath}: ${f.error}`)
+        errors: result.failed.map(f => `${f.name || f.filePaths.join(', ')}: ${f.error}`),
+        rolledBack: result.rolledBack,
+        cancelled: result.cancelled,
+        commits: [...result.successful, ...result.failed]
+          .sort((a, b) => a.index - b.index)
+          .map(r => this._toCommitResultInfo(r, validCommits[r.index], multiRepo)),
+        repositories: multiRepo ? repositories : undefined
       };
+      this._lastResult = resultInfo;
 
       this._postMessage({ type: 'commitResult', result: resultInfo });
 
-      if (result.successful.length > 0) {
+      if (multiRepo && result.rolledBack) {
+        const rolledBack = repositories.filter(r => r.rolledBack).map(r => r.name);
+        vscode.window.showErrorMessage(
+          `GitToys: Bulk commit rolled back - ${result.cancelled ? 'the run was cancelled' : result.failed[0]?.error}. ` +
+          `HEAD and the index of ${rolledBack.join(', ')} were restored; no commits were created.`
+        );
+      } else if (result.rolledBack) {
+        vscode.window.showErrorMessage(
+          `GitToys: Bulk commit rolled back - ${result.cancelled ? 'the run was cancelled' : result.failed[0]?.error}. ` +
+          `HEAD and the index were restored; no commits were created.`
+        );
+      } else if (result.successful.length > 0) {
         vscode.window.showInformationMessage(
-          `GitToys: Successfully created ${result.successful.length} commit(s).`
+          `GitToys: Successfully created ${result.successful.length} commit(s)` +
+          `${multiRepo ? ` in ${committedTo.length} repositories` : ''}.`
         );
         
         // Auto-push if configured
         const config = vscode.workspace.getConfiguration('gittoys');
         if (config.get<boolean>('bulkCommit.pushAfterCommit', false)) {
-          await this._pushAfterCommit();
+          await this._pushAfterCommit(committedTo);
         }
       }
 
-      if (result.failed.length > 0) {
+      if (result.failed.length > 0 && !result.rolledBack) {
         vscode.window.showErrorMessage(
-          `GitToys: Failed to commit ${result.failed.length} file(s).`
+          `GitToys: Failed to create ${result.failed.length} commit(s).`
+        );
+      }
+
+      if (result.cancelled && !result.rolledBack) {
+        const remaining = result.totalCommits - result.successful.length - result.failed.length;
+        vscode.window.showWarningMessage(
+          `GitToys: Bulk commit cancelled - ${remaining} commit(s) were not created.`
         );
       }
 
       // Refresh the file list after committing
       await this._sendChangedFiles();
+
+      // Not awaited: the notification stays open while the panel is usable again
+      this._offerUnstash().catch(error => {
+        const errorMsg = error instanceof Error ? error.message : String(error);
+        vscode.window.showErrorMessage(`GitToys: Unstash failed - ${errorMsg}`);
+      });
     } catch (error) {
       const errorMsg = error instanceof Error ? error.message : String(error);
       this._postMessage({ type: 'error', message: errorMsg });
       vscode.window.showErrorMessage(`GitToys: ${errorMsg}`);
     } finally {
+      this._commitCancellation.dispose();
+      this._commitCancellation = undefined;
       this._postMessage({ type: 'loading', loading: false });
     }
   }
 
+  /**
+   * Run a failed commit of the last run again, optionally skipping the hooks
+   */
+  private async _retryCommit(index: number, noVerify: boolean) {
+    const task = this._lastTasks[index];
+    const lastResult = this._lastResult;
+    const previous = lastResult?.commits.find(c => c.index === index);
+    if (!task || !lastResult || !previous || previous.success || this._commitCancellation) {
+      return;
+    }
+    // The commits of a rolled back repository are gone, so retrying one makes no sense
+    const repoResult = lastResult.repositories?.find(r => r.rootPath === previous.rootPath);
+    if (repoResult ? repoResult.rolledBack : lastResult.rolledBack) {
+      return;
+    }
+
+    const retryTask: CommitTask = noVerify ? { ...task, options: { ...task.options, noVerify: true } } : task;
+    this._commitCancellation = new vscode.CancellationTokenSource();
+
+    try {
+      this._postMessage({ type: 'loading', loading: true });
+      this._postMessage({ type: 'commitTaskStarted', index });
+
+      const repository = this._getRepository(task.files[0].filePath);
+      const result = await this._gitService.bulkCommit([retryTask], {}, repository);
+      const outcome = result.successful[0] || result.failed[0];
+      const commit = this._toCommitResultInfo({ ...outcome, index }, retryTask, !!repoResult);
+
+      lastResult.commits = lastResult.commits.map(c => c.index === index ? commit : c);
+      lastResult.successful = lastResult.commits.filter(c => c.success).length;
+      lastResult.failed = lastResult.commits.filter(c => !c.success).length;
+      lastResult.errors = lastResult.commits.filter(c => !c.success).map(c => `${c.label}: ${c.error}`);
+      if (repoResult) {
+        repoResult.successful += commit.success ? 1 : 0;
+        repoResult.failed -= commit.success ? 1 : 0;
+      }
+      this._postMessage({ type: 'commitRetried', commit, result: lastResult });
+
+      if (commit.success) {
+        vscode.window.showInformationMessage(`GitToys: Committed ${commit.label}${noVerify ? ' without running hooks' : ''}.`);
+        if (vscode.workspace.getConfiguration('gittoys').get<boolean>('bulkCommit.pushAfterCommit', false)) {
+          await this._pushAfterCommit([repository]);
+        }
+      } else {
+        vscode.window.showErrorMessage(`GitToys: Retrying ${commit.label} failed - ${commit.error}`);
+      }
+
+      await this._sendChangedFiles();
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      this._postMessage({ type: 'error', message: errorMsg });
+      vscode.window.showErrorMessage(`GitToys: ${errorMsg}`);
+    } finally {
+      this._commitCancellation.dispose();
+      this._commitCancellation = undefined;
+      this._postMessage({ type: 'loading', loading: false });
+    }
+  }
+
+  private _getCommitLabel(commit: { name?: string; files: { filePath: string }[] }): string {
+    return commit.name || commit.files.map(f => f.filePath.split(/[/\\]/).pop()).join(', ');
+  }
+
+  private _getRepositoryName(commit: CommitTask): string {
+    return this._toRepoInfo(this._getRepository(commit.files[0].filePath)).name;
+  }
+
+  private _toCommitResultInfo(result: CommitResult, request: CommitTask, multiRepo = false): CommitResultInfo {
+    const details = result.commit;
+    const repository = multiRepo ? this._toRepoInfo(this._getRepository(request.files[0].filePath)) : undefined;
+    return {
+      index: result.index,
+      label: this._getCommitLabel(request),
+      message: result.message || request.message,
+      files: result.filePaths.map(p => vscode.workspace.asRelativePath(p, false)),
+      filePaths: result.filePaths,
+      success: result.success,
+      hash: details?.hash,
+      parent: details?.parent,
+      author: details?.authorName
+        ? `${details.authorName}${details.authorEmail ? ` <${details.authorEmail}>` : ''}`
+        : undefined,
+      date: details?.date?.toISOString(),
+      error: result.error,
+      output: result.output,
+      repository: repository?.name,
+      rootPath: repository?.rootPath
+    };
+  }
+
+  /**
+   * Copy a plain-text summary of the last bulk commit run
+   */
+  private async _copyResultSummary() {
+    const result = this._lastResult;
+    if (!result) {
+      return;
+    }
+
+    const branch = result.repositories ? undefined : this._gitService.getRepositoryInfo()?.branch;
+    const lines = [
+      `Bulk commit: ${result.successful}/${result.total} commit(s)${branch ? ` on ${branch}` : ''}` +
+        `${result.rolledBack ? ' (rolled back)' : ''}${result.cancelled ? ' (cancelled)' : ''}`
+    ];
+    for (const repository of result.repositories || []) {
+      lines.push(`${repository.name}: ${repository.successful} committed, ${repository.failed} failed${repository.rolledBack ? ' (rolled back)' : ''}`);
+    }
+    for (const commit of result.commits) {
+      const subject = `${commit.repository ? `[${commit.repository}] ` : ''}${commit.message.split('\n')[0]}`;
+      lines.push(commit.success
+        ? `${commit.hash?.substring(0, 7)} ${subject} (${commit.files.join(', ')})`
+        : `FAILED ${subject} (${commit.files.join(', ')}): ${commit.error}`);
+    }
+
+    await vscode.env.clipboard.writeText(lines.join('\n'));
+    vscode.window.showInformationMessage('GitToys: Commit summary copied to clipboard');
+  }
+
+  private _postProgress(progress: CommitProgress) {
+    switch (progress.status) {
+      case 'started':
+        this._postMessage({ type: 'commitTaskStarted', index: progress.index });
+        break;
+      case 'committed':
+        this._postMessage({ type: 'commitTaskCommitted', index: progress.index, hash: progress.hash });
+        break;
+      case 'failed':
+        this._postMessage({ type: 'commitTaskFailed', index: progress.index, error: progress.error });
+        break;
+    }
+  }
+
   private _postMessage(message: ExtensionMessage) {
     this._panel.webview.postMessage(message);
   }
@@ -297,6 +1121,7 @@ export class BulkCommitPanel {
 
   public dispose() {
     BulkCommitPanel.currentPanel = undefined;
+    this._suggestionCancellation?.cancel();
 
     this._panel.dispose();
 
@@ -0,0 +1,160 @@
+import * as vscode from 'vscode';
+import { GitService } from '../../git/gitService';
+
+/**
+ * Co-authors and author override applied to every commit of a Bulk Commit run
+ */
+
+/** `Name <email>`, as used by Co-authored-by trailers and `git commit --author` */
+const PERSON = /^\s*([^<>]*[^<>\s])\s*<([^<>\s@]+@[^<>\s]+)>\s*$/;
+
+const CO_AUTHORS_KEY = 'gittoys.coAuthors';
+const AUTHOR_KEY = 'gittoys.commitAuthor';
+
+/**
+ * Normalize a `Name <email>` string; undefined if it isn't one
+ */
+export function parsePerson(value: string): string | undefined {
+  const match = PERSON.exec(value);
+  return match ? `${match[1]} <${match[2]}>` : undefined;
+}
+
+function emailOf(person: string): string {
+  return (PERSON.exec(person)?.[2] || person).toLowerCase();
+}
+
+/**
+ * People to pick from: the `gittoys.bulkCommit.coAuthors` setting, then the authors of
+ * recent commits. The current git user is left out.
+ */
+export async function getCoAuthorRoster(gitService: GitService, rootPath?: string): Promise<string[]> {
+  const config = vscode.workspace.getConfiguration('gittoys', rootPath ? vscode.Uri.file(rootPath) : undefined);
+  const configured = config.get<string[]>('bulkCommit.coAuthors', [])
+    .map(parsePerson)
+    .filter((p): p is string => !!p);
+  const repository = rootPath ? gitService.getRepositoryByRoot(rootPath) : undefined;
+  const [recent, self] = await Promise.all([
+    gitService.getRecentAuthors(undefined, repository),
+    gitService.getUserEmail(repository)
+  ]);
+
+  const seen = new Set(self ? [self.toLowerCase()] : []);
+  return [...configured, ...recent].filter(person => {
+    const email = emailOf(person);
+    if (seen.has(email)) {
+      return false;
+    }
+    seen.add(email);
+    return true;
+  });
+}
+
+/**
+ * The chosen co-authors and author, shared by the Bulk Commit panel and Quick Actions.
+ * Kept in workspace state so a pairing session survives a reload.
+ */
+export class CoAuthorSelection implements vscode.Disposable {
+  private readonly _onDidChange = new vscode.EventEmitter<void>();
+  readonly onDidChange = this._onDidChange.event;
+
+  constructor(private readonly _state: vscode.Memento) {}
+
+  get coAuthors(): string[] {
+    return this._state.get<string[]>(CO_AUTHORS_KEY, []);
+  }
+
+  /** Author of the commits instead of the git user; undefined keeps git's default */
+  get author(): string | undefined {
+    return this._state.get<string>(AUTHOR_KEY);
+  }
+
+  async setCoAuthors(coAuthors: string[]): Promise<void> {
+    const unique = coAuthors.filter((p, i) => coAuthors.findIndex(q => emailOf(q) === emailOf(p)) === i);
+    await this._state.update(CO_AUTHORS_KEY, unique);
+    this._onDidChange.fire();
+  }
+
+  async setAuthor(author: string | undefined): Promise<void> {
+    await this._state.update(AUTHOR_KEY, author);
+    this._onDidChange.fire();
+  }
+
+  dispose(): void {
+    this._onDidChange.dispose();
+  }
+}
+
+/**
+ * Ask for a `Name <email>` that isn't in the roster
+ */
+async function promptForPerson(title: string): Promise<string | undefined> {
+  const value = await vscode.window.showInputBox({
+    title,
+    placeHolder: 'Jane Doe <jane@example.com>',
+    validateInput: input => parsePerson(input) ? undefined : 'Use the form "Name <email>"'
+  });
+  return value ? parsePerson(value) : undefined;
+}
+
+/**
+ * Quick pick of the co-authors for the next runs
+ */
+export async function pickCoAuthors(gitService: GitService, selection: CoAuthorSelection): Promise<void> {
+  const roster = await getCoAuthorRoster(gitService, gitService.getRepositoryInfo()?.rootPath);
+  const current = selection.coAuthors;
+  const people = [...current, ...roster.filter(p => !current.some(c => emailOf(c) === emailOf(p)))];
+
+  const other = { label: '$(add) Someone else...', person: undefined as string | undefined };
+  const items = [
+    ...people.map(person => ({ label: person, person, picked: current.includes(person) })),
+    other
+  ];
+  const picked = await vscode.window.showQuickPick(items, {
+    canPickMany: true,
+    title: 'Co-authors',
+    placeHolder: 'Added as Co-authored-by trailers to every commit of a Bulk Commit run'
+  });
+  if (!picked) {
+    return;
+  }
+
+  const coAuthors = picked.map(item => item.person).filter((p): p is string => !!p);
+  if (picked.includes(other)) {
+    const person = await promptForPerson('Add a co-author');
+    if (person) {
+      coAuthors.push(person);
+    }
+  }
+  await selection.setCoAuthors(coAuthors);
+}
+
+/**
+ * Quick pick of the author for the next runs
+ */
+export async function pickCommitAuthor(gitService: GitService, selection: CoAuthorSelection): Promise<void> {
+  const roster = await getCoAuthorRoster(gitService, gitService.getRepositoryInfo()?.rootPath);
+  const current = selection.author;
+  const people = current && !roster.includes(current) ? [current, ...roster] : roster;
+
+  const items = [
+    { label: '$(person) Me', description: 'The git user.name and user.email', person: undefined as string | undefined, other: false },
+    ...people.map(person => ({ label: person, description: person === current ? 'current' : '', person, other: false })),
+    { label: '$(add) Someone else...', description: '', person: undefined, other: true }
+  ];
+  const picked = await vscode.window.showQuickPick(items, {
+    title: 'Commit author',
+    placeHolder: 'Author of every commit of a Bulk Commit run'
+  });
+  if (!picked) {
+    return;
+  }
+
+  if (picked.other) {
+    const person = await promptForPerson('Commit author');
+    if (person) {
+      await selection.setAuthor(person);
+    }
+    return;
+  }
+  await selection.setAuthor(picked.person);
+}
@@ -0,0 +1,258 @@
+import * as vscode from 'vscode';
+import { findCommitlintConfig, applyCommitlintRules } from './commitlintConfig';
+
+/**
+ * Commit message linting with Conventional Commits rules.
+ * Rule names follow commitlint so both configurations read the same.
+ */
+
+export type LintSeverity = 'error' | 'warning' | 'off';
+
+export type LintRuleName =
+  | 'header-format'
+  | 'type-enum'
+  | 'scope-enum'
+  | 'subject-empty'
+  | 'subject-case'
+  | 'subject-full-stop'
+  | 'header-max-length'
+  | 'body-leading-blank'
+  | 'body-max-line-length';
+
+export type TextCase =
+  | 'lower-case'
+  | 'upper-case'
+  | 'sentence-case'
+  | 'start-case'
+  | 'pascal-case'
+  | 'camel-case'
+  | 'kebab-case'
+  | 'snake-case';
+
+export interface LintConfig {
+  enabled: boolean;
+  /** Commitlint config file the rules came from, if any */
+  source?: string;
+  /** Allowed types; empty allows any type */
+  types: string[];
+  /** Allowed scopes; empty allows any scope */
+  scopes: string[];
+  /** The subject must (`always`) or must not (`never`) be in one of the cases */
+  subjectCase: { condition: 'always' | 'never'; cases: TextCase[] };
+  headerMaxLength: number;
+  bodyMaxLineLength: number;
+  severity: Record<LintRuleName, LintSeverity>;
+}
+
+export interface LintViolation {
+  rule: LintRuleName;
+  severity: 'error' | 'warning';
+  message: string;
+  /** 1-based line of the message the violation refers to */
+  line?: number;
+}
+
+export interface ParsedHeader {
+  type: string;
+  scope?: string;
+  breaking: boolean;
+  subject: string;
+}
+
+/**
+ * Shape of the `gittoys.bulkCommit.lint` setting
+ */
+interface LintSettings {
+  enabled: boolean;
+  useCommitlintConfig: boolean;
+  types: string[];
+  scopes: string[];
+  subjectCase: 'lower-case' | 'sentence-case' | 'any';
+  headerMaxLength: number;
+  bodyMaxLineLength: number;
+  severity: Partial<Record<LintRuleName, LintSeverity>>;
+}
+
+export const DEFAULT_SEVERITY: Record<LintRuleName, LintSeverity> = {
+  'header-format': 'error',
+  'type-enum': 'error',
+  'scope-enum': 'error',
+  'subject-empty': 'error',
+  'subject-case': 'warning',
+  'subject-full-stop': 'warning',
+  'header-max-length': 'warning',
+  'body-leading-blank': 'warning',
+  'body-max-line-length': 'warning'
+};
+
+const DEFAULT_SETTINGS: LintSettings = {
+  enabled: true,
+  useCommitlintConfig: true,
+  types: ['feat', 'fix', 'docs', 'style', 'refactor', 'perf', 'test', 'build', 'ci', 'chore', 'revert'],
+  scopes: [],
+  subjectCase: 'lower-case',
+  headerMaxLength: 72,
+  bodyMaxLineLength: 100,
+  severity: DEFAULT_SEVERITY
+};
+
+const HEADER_PATTERN = /^(\w[\w-]*)(?:\(([^()\r\n]*)\))?(!)?: (.*)$/;
+
+/** Headers git or tooling writes itself; these are never linted */
+const IGNORED_HEADER = /^(Merge |Revert "|fixup! |squash! |amend! )/;
+
+/**
+ * Read the lint configuration from the `gittoys.bulkCommit.lint` setting
+ */
+export function getLintConfig(): LintConfig {
+  const config = vscode.workspace.getConfiguration('gittoys');
+  // Object settings replace the default as a whole, so fill in whatever the user left out
+  const settings = { ...DEFAULT_SETTINGS, ...config.get<Partial<LintSettings>>('bulkCommit.lint', {}) };
+  const severity = { ...DEFAULT_SEVERITY, ...settings.severity };
+
+  let subjectCase: LintConfig['subjectCase'];
+  switch (settings.subjectCase) {
+    case 'sentence-case':
+      subjectCase = { condition: 'always', cases: ['sentence-case'] };
+      break;
+    case 'any':
+      subjectCase = { condition: 'never', cases: [] };
+      break;
+    default:
+      // Same as @commitlint/config-conventional: anything but a capitalised subject
+      subjectCase = { condition: 'never', cases: ['sentence-case', 'start-case', 'pascal-case', 'upper-case'] };
+  }
+
+  return {
+    enabled: settings.enabled,
+    types: settings.types,
+    scopes: settings.scopes,
+    subjectCase,
+    headerMaxLength: settings.headerMaxLength,
+    bodyMaxLineLength: settings.bodyMaxLineLength,
+    severity
+  };
+}
+
+/**
+ * Read the lint configuration for a repository: the settings, overridden by
+ * the repository's commitlint config when there is one
+ */
+export async function loadLintConfig(rootPath?: string): Promise<LintConfig> {
+  const config = getLintConfig();
+  const useCommitlint = vscode.workspace.getConfiguration('gittoys')
+    .get<Partial<LintSettings>>('bulkCommit.lint', {}).useCommitlintConfig ?? true;
+  if (!rootPath || !useCommitlint) {
+    return config;
+  }
+
+  const commitlint = await findCommitlintConfig(rootPath);
+  return commitlint ? { ...applyCommitlintRules(config, commitlint.rules), source: commitlint.source } : config;
+}
+
+/**
+ * Split a `type(scope)!: subject` header into its parts
+ */
+export function parseCommitHeader(header: string): ParsedHeader | undefined {
+  const match = HEADER_PATTERN.exec(header);
+  if (!match) {
+    return undefined;
+  }
+  return {
+    type: match[1],
+    scope: match[2] || undefined,
+    breaking: match[3] === '!',
+    subject: match[4]
+  };
+}
+
+/**
+ * Check a commit message against the configured rules
+ */
+export function lintCommitMessage(message: string, config: LintConfig): LintViolation[] {
+  const violations: LintViolation[] = [];
+  const lines = message.replace(/\s+$/, '').split(/\r?\n/);
+  const header = lines[0];
+
+  if (!config.enabled || !header.trim() || IGNORED_HEADER.test(header)) {
+    return violations;
+  }
+
+  const report = (rule: LintRuleName, text: string, line?: number) => {
+    const severity = config.severity[rule];
+    if (severity !== 'off') {
+      violations.push({ rule, severity, message: text, line });
+    }
+  };
+
+  const parsed = parseCommitHeader(header);
+  if (!parsed) {
+    report('header-format', 'Header must look like "type(scope): subject"', 1);
+  } else {
+    if (config.types.length > 0 && !config.types.includes(parsed.type)) {
+      report('type-enum', `Type "${parsed.type}" must be one of: ${config.types.join(', ')}`, 1);
+    }
+
+    if (parsed.scope !== undefined && config.scopes.length > 0) {
+      const unknown = parsed.scope.split(/[,/\\]/).map(s => s.trim()).filter(s => !config.scopes.includes(s));
+      if (unknown.length > 0) {
+        report('scope-enum', `Scope "${unknown.join(', ')}" must be one of: ${config.scopes.join(', ')}`, 1);
+      }
+    }
+
+    const subject = parsed.subject.trim();
+    if (!subject) {
+      report('subject-empty', 'Subject may not be empty', 1);
+    } else {
+      const { condition, cases } = config.subjectCase;
+      const matches = cases.some(c => isInCase(subject, c));
+      if (cases.length > 0 && (condition === 'always' ? !matches : matches)) {
+        report('subject-case', `Subject must ${condition === 'always' ? '' : 'not '}be ${cases.join(', ')}`, 1);
+      }
+      if (subject.endsWith('.')) {
+        report('subject-full-stop', 'Subject may not end with a period', 1);
+      }
+    }
+  }
+
+  if (header.length > config.headerMaxLength) {
+    report('header-max-length', `Header is ${header.length} characters, the maximum is ${config.headerMaxLength}`, 1);
+  }
+
+  if (lines.length > 1 && lines[1].trim() !== '') {
+    report('body-leading-blank', 'Separate the body from the header with a blank line', 2);
+  }
+
+  const longLine = lines.findIndex((line, index) => index > 0 && line.length > config.bodyMaxLineLength);
+  if (longLine > 0) {
+    report('body-max-line-length', `Body lines may not exceed ${config.bodyMaxLineLength} characters`, longLine + 1);
+  }
+
+  return violations;
+}
+
+/**
+ * Whether text is written in the given case (same semantics as commitlint)
+ */
+function isInCase(text: string, textCase: TextCase): boolean {
+  switch (textCase) {
+    case 'lower-case':
+      return text === text.toLowerCase();
+    case 'upper-case':
+      return text === text.toUpperCase();
+    case 'sentence-case': {
+      const [word] = text.split(' ');
+      return text === word.charAt(0).toUpperCase() + word.slice(1).toLowerCase() + text.slice(word.length);
+    }
+    case 'start-case':
+      return text.split(/\s+/).every(word => word.charAt(0) === word.charAt(0).toUpperCase());
+    case 'pascal-case':
+      return /^[A-Z][A-Za-z0-9]*$/.test(text);
+    case 'camel-case':
+      return /^[a-z][A-Za-z0-9]*$/.test(text);
+    case 'kebab-case':
+      return /^[a-z0-9]+(-[a-z0-9]+)*$/.test(text);
+    case 'snake-case':
+      return /^[a-z0-9]+(_[a-z0-9]+)*$/.test(text);
+  }
+}
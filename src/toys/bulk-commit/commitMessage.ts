@@ -0,0 +1,87 @@
+import * as vscode from 'vscode';
+import { CommitMessageParts, Trailer, LintViolationInfo } from '../../types/messages';
+
+/**
+ * Assembles commit messages from their subject, body and trailers
+ */
+
+/** Trailer keys follow git's rules: letters, digits and dashes */
+const TRAILER_KEY = /^[A-Za-z0-9][A-Za-z0-9-]*$/;
+
+/** Trailers that name a person must read `Name <email>` */
+const PERSON_TRAILERS = ['co-authored-by', 'signed-off-by', 'reviewed-by', 'acked-by', 'tested-by', 'reported-by', 'helped-by'];
+const PERSON = /^[^<>]+ <[^<>\s@]+@[^<>\s]+>$/;
+
+/**
+ * Parse a `Key: value` line; undefined if the line isn't a trailer
+ */
+export function parseTrailer(line: string): Trailer | undefined {
+  const match = /^([^:\s][^:]*):\s*(.*)$/.exec(line.trim());
+  return match ? { key: match[1].trim(), value: match[2].trim() } : undefined;
+}
+
+/**
+ * Trailers from the `gittoys.bulkCommit.defaultTrailers` setting of the repository
+ */
+export function getDefaultTrailers(rootPath?: string): Trailer[] {
+  const config = vscode.workspace.getConfiguration('gittoys', rootPath ? vscode.Uri.file(rootPath) : undefined);
+  return config.get<string[]>('bulkCommit.defaultTrailers', [])
+    .map(parseTrailer)
+    .filter((t): t is Trailer => !!t && !!t.value);
+}
+
+/**
+ * Build the full message: subject, blank line, body, blank line, trailers.
+ * Default trailers are added unless the message already has the same one.
+ */
+export function assembleCommitMessage(parts: CommitMessageParts, defaultTrailers: Trailer[] = []): string {
+  const subject = parts.subject.trim();
+  if (!subject) {
+    return '';
+  }
+
+  const trailers = (parts.trailers || []).filter(t => t.key.trim() || t.value.trim());
+  for (const trailer of defaultTrailers) {
+    if (!trailers.some(t => sameTrailer(t, trailer))) {
+      trailers.push(trailer);
+    }
+  }
+
+  const sections = [subject];
+  const body = parts.body?.replace(/\s+$/, '').replace(/^\s*\n/, '');
+  if (body) {
+    sections.push(body);
+  }
+  if (trailers.length > 0) {
+    sections.push(trailers.map(t => `${t.key.trim()}: ${t.value.trim()}`).join('\n'));
+  }
+  return sections.join('\n\n');
+}
+
+/**
+ * Check the format of each trailer; returned in the same shape as lint violations
+ */
+export function validateTrailers(trailers: Trailer[] = []): LintViolationInfo[] {
+  const violations: LintViolationInfo[] = [];
+  const report = (message: string) => violations.push({ rule: 'trailer-format', severity: 'error', message });
+
+  for (const trailer of trailers) {
+    const key = trailer.key.trim();
+    const value = trailer.value.trim();
+    if (!key && !value) {
+      continue;
+    }
+    if (!TRAILER_KEY.test(key)) {
+      report(`Trailer key "${key}" may only contain letters, digits and dashes`);
+    } else if (!value) {
+      report(`Trailer "${key}" needs a value`);
+    } else if (PERSON_TRAILERS.includes(key.toLowerCase()) && !PERSON.test(value)) {
+      report(`Trailer "${key}" must be "Name <email>"`);
+    }
+  }
+  return violations;
+}
+
+function sameTrailer(a: Trailer, b: Trailer): boolean {
+  return a.key.trim().toLowerCase() === b.key.trim().toLowerCase() && a.value.trim() === b.value.trim();
+}
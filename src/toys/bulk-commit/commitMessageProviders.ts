@@ -0,0 +1,69 @@
+import * as vscode from 'vscode';
+import { CommitMessageContext, CommitMessageProvider, CommitMessageSuggestion } from '../../types/api';
+
+/** How long a provider may take before its suggestions are dropped */
+const PROVIDER_TIMEOUT_MS = 5000;
+
+export interface ProvidedSuggestion {
+  message: string;
+  /** Label of the provider the suggestion came from */
+  source: string;
+}
+
+/**
+ * Commit message providers registered by other extensions through the public API
+ */
+export class CommitMessageProviderRegistry {
+  private readonly _providers: CommitMessageProvider[] = [];
+
+  register(provider: CommitMessageProvider): vscode.Disposable {
+    this._providers.push(provider);
+    return new vscode.Disposable(() => {
+      const index = this._providers.indexOf(provider);
+      if (index >= 0) {
+        this._providers.splice(index, 1);
+      }
+    });
+  }
+
+  get size(): number {
+    return this._providers.length;
+  }
+
+  /**
+   * Ask every provider for suggestions; a provider that fails or takes too long only
+   * loses its own suggestions
+   */
+  async provide(context: CommitMessageContext, token: vscode.CancellationToken): Promise<ProvidedSuggestion[]> {
+    const results = await Promise.all(this._providers.map(async provider => {
+      // Cancelled when the request is superseded, or when the provider runs out of time
+      const cancellation = new vscode.CancellationTokenSource();
+      const cancelListener = token.onCancellationRequested(() => cancellation.cancel());
+      let timer: NodeJS.Timeout | undefined;
+      const timeout = new Promise<undefined>(resolve => {
+        timer = setTimeout(() => {
+          console.warn(`Commit message provider "${provider.label}" timed out after ${PROVIDER_TIMEOUT_MS}ms`);
+          cancellation.cancel();
+          resolve(undefined);
+        }, PROVIDER_TIMEOUT_MS);
+      });
+      try {
+        const suggestions: CommitMessageSuggestion[] = (await Promise.race([
+          Promise.resolve(provider.provideCommitMessages(context, cancellation.token)),
+          timeout
+        ])) || [];
+        return suggestions
+          .filter(s => s && typeof s.message === 'string' && s.message.trim())
+          .map(s => ({ message: s.message, source: s.description || provider.label }));
+      } catch (error) {
+        console.error(`Commit message provider "${provider.label}" failed:`, error);
+        return [];
+      } finally {
+        clearTimeout(timer);
+        cancelListener.dispose();
+        cancellation.dispose();
+      }
+    }));
+    return results.flat();
+  }
+}
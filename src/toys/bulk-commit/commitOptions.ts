@@ -0,0 +1,65 @@
+import * as vscode from 'vscode';
+import { CommitOptions } from '../../types/git';
+import { CommitOptionsInfo } from '../../types/messages';
+
+/**
+ * Commit flags of a bulk run: amend, sign-off, GPG signing, skipping hooks...
+ */
+
+export const COMMIT_OPTION_LABELS: Record<keyof CommitOptionsInfo, string> = {
+  amend: 'Amend',
+  signoff: 'Sign-off',
+  signCommit: 'GPG sign',
+  noVerify: 'No verify',
+  all: 'All tracked',
+  allowEmpty: 'Allow empty'
+};
+
+/**
+ * Defaults from the `gittoys.bulkCommit.commitOptions` setting of the repository
+ */
+export function getDefaultCommitOptions(rootPath?: string): CommitOptionsInfo {
+  const config = vscode.workspace.getConfiguration('gittoys', rootPath ? vscode.Uri.file(rootPath) : undefined);
+  const settings = config.get<CommitOptionsInfo>('bulkCommit.commitOptions', {});
+  const options: CommitOptionsInfo = {};
+  for (const key of Object.keys(COMMIT_OPTION_LABELS) as (keyof CommitOptionsInfo)[]) {
+    options[key] = settings[key] === true;
+  }
+  return options;
+}
+
+/**
+ * Options for each commit of a run: the commit's own flags win over the run's.
+ * Amending from the run only applies to the first commit - later ones would amend
+ * the commits the run just created.
+ */
+export function resolveCommitOptions(run: CommitOptionsInfo, commits: (CommitOptionsInfo | undefined)[]): CommitOptionsInfo[] {
+  return commits.map((own, index) => ({
+    ...run,
+    amend: index === 0 && run.amend,
+    ...own
+  }));
+}
+
+/**
+ * Translate to the options of the Git extension's `Repository.commit`
+ */
+export function toGitCommitOptions(options: CommitOptionsInfo): CommitOptions {
+  return {
+    amend: options.amend || undefined,
+    signoff: options.signoff || undefined,
+    signCommit: options.signCommit || undefined,
+    noVerify: options.noVerify || undefined,
+    all: options.all ? 'tracked' : undefined,
+    empty: options.allowEmpty || undefined
+  };
+}
+
+/**
+ * Labels of the options that are turned on
+ */
+export function describeCommitOptions(options: CommitOptions = {}): string[] {
+  return (Object.keys(COMMIT_OPTION_LABELS) as (keyof CommitOptionsInfo)[])
+    .filter(key => key === 'allowEmpty' ? options.empty : options[key])
+    .map(key => COMMIT_OPTION_LABELS[key]);
+}
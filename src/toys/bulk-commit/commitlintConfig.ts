@@ -0,0 +1,262 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vm from 'vm';
+import { createRequire } from 'module';
+import { parse as parseYaml } from 'yaml';
+import type { LintConfig, LintSeverity, LintRuleName, TextCase } from './commitLinter';
+
+/**
+ * Reads commitlint configuration from a repository root so bulk commits
+ * are checked against the same rules CI enforces.
+ */
+
+/** commitlint rule tuple: [level, applicable, value] */
+type RuleConfig = [number, ('always' | 'never')?, unknown?];
+
+export interface CommitlintConfig {
+  /** File the configuration was read from, relative to the repository root */
+  source: string;
+  rules: Record<string, RuleConfig>;
+}
+
+/** Files commitlint looks for, in its own lookup order */
+const CONFIG_FILES = [
+  'package.json',
+  '.commitlintrc',
+  '.commitlintrc.json',
+  '.commitlintrc.yaml',
+  '.commitlintrc.yml',
+  '.commitlintrc.js',
+  '.commitlintrc.cjs',
+  '.commitlintrc.mjs',
+  '.commitlintrc.ts',
+  '.commitlintrc.cts',
+  'commitlint.config.js',
+  'commitlint.config.cjs',
+  'commitlint.config.mjs',
+  'commitlint.config.ts',
+  'commitlint.config.cts'
+];
+
+/** Rules of @commitlint/config-conventional, used when a config extends it */
+const CONVENTIONAL_RULES: Record<string, RuleConfig> = {
+  'body-leading-blank': [1, 'always'],
+  'body-max-line-length': [2, 'always', 100],
+  'header-max-length': [2, 'always', 100],
+  'subject-case': [2, 'never', ['sentence-case', 'start-case', 'pascal-case', 'upper-case']],
+  'subject-empty': [2, 'never'],
+  'subject-full-stop': [2, 'never', '.'],
+  'type-empty': [2, 'never'],
+  'type-enum': [2, 'always', ['build', 'chore', 'ci', 'docs', 'feat', 'fix', 'perf', 'refactor', 'revert', 'style', 'test']]
+};
+
+const cache = new Map<string, { stamp: string; config: CommitlintConfig | undefined }>();
+
+/**
+ * Find and read the commitlint config in a repository root.
+ * Results are cached until one of the candidate files changes.
+ */
+export async function findCommitlintConfig(rootPath: string): Promise<CommitlintConfig | undefined> {
+  const stats = await Promise.all(CONFIG_FILES.map(file =>
+    fs.promises.stat(path.join(rootPath, file)).then(s => s.mtimeMs, () => undefined)
+  ));
+  const stamp = stats.join(',');
+  const cached = cache.get(rootPath);
+  if (cached && cached.stamp === stamp) {
+    return cached.config;
+  }
+
+  let config: CommitlintConfig | undefined;
+  for (let i = 0; i < CONFIG_FILES.length && !config; i++) {
+    if (stats[i] === undefined) {
+      continue;
+    }
+    const file = CONFIG_FILES[i];
+    try {
+      const raw = await readConfigFile(path.join(rootPath, file));
+      if (raw) {
+        config = { source: file, rules: resolveRules(raw, path.join(rootPath, file)) };
+      }
+    } catch (error) {
+      // Shown once per change of the file, as the result is cached
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      vscode.window.showWarningMessage(
+        `GitToys: Could not load the commitlint config ${file} - ${errorMsg}. Commit messages are linted with the gittoys.bulkCommit.lint settings instead.`
+      );
+    }
+  }
+
+  cache.set(rootPath, { stamp, config });
+  return config;
+}
+
+/**
+ * Overlay the rules GitToys understands onto a lint configuration
+ */
+export function applyCommitlintRules(base: LintConfig, rules: Record<string, RuleConfig>): LintConfig {
+  const config: LintConfig = { ...base, severity: { ...base.severity } };
+  const set = (rule: LintRuleName, value: RuleConfig) => {
+    config.severity[rule] = toSeverity(value[0]);
+  };
+
+  for (const [name, value] of Object.entries(rules)) {
+    if (!Array.isArray(value) || typeof value[0] !== 'number') {
+      continue;
+    }
+    const [, applicable = 'always', option] = value;
+
+    switch (name) {
+      case 'type-enum':
+        set('type-enum', value);
+        config.types = Array.isArray(option) ? option.map(String) : [];
+        break;
+      case 'scope-enum':
+        set('scope-enum', value);
+        config.scopes = Array.isArray(option) ? option.map(String) : [];
+        break;
+      case 'type-empty':
+        // Without a type the header can't be parsed at all
+        if (applicable === 'never') {
+          set('header-format', value);
+        }
+        break;
+      case 'subject-case': {
+        set('subject-case', value);
+        const cases = Array.isArray(option) ? option : [option];
+        config.subjectCase = { condition: applicable, cases: cases.map(String) as TextCase[] };
+        break;
+      }
+      case 'subject-empty':
+        if (applicable === 'never') {
+          set('subject-empty', value);
+        }
+        break;
+      case 'subject-full-stop':
+        if (applicable === 'never' && (option === undefined || option === '.')) {
+          set('subject-full-stop', value);
+        }
+        break;
+      case 'header-max-length':
+        set('header-max-length', value);
+        config.headerMaxLength = Number(option) || base.headerMaxLength;
+        break;
+      case 'body-leading-blank':
+        if (applicable === 'always') {
+          set('body-leading-blank', value);
+        }
+        break;
+      case 'body-max-line-length':
+        set('body-max-line-length', value);
+        config.bodyMaxLineLength = Number(option) || base.bodyMaxLineLength;
+        break;
+    }
+  }
+
+  return config;
+}
+
+function toSeverity(level: number): LintSeverity {
+  return level >= 2 ? 'error' : level === 1 ? 'warning' : 'off';
+}
+
+/**
+ * Read one candidate file; returns undefined when it holds no commitlint config
+ */
+async function readConfigFile(filePath: string): Promise<Record<string, unknown> | undefined> {
+  const text = await fs.promises.readFile(filePath, 'utf8');
+  const name = path.basename(filePath);
+
+  if (name === 'package.json') {
+    return JSON.parse(text).commitlint;
+  }
+  if (name.endsWith('.json')) {
+    return JSON.parse(text);
+  }
+  // YAML is a superset of JSON, so this also reads a JSON `.commitlintrc`
+  if (name === '.commitlintrc' || name.endsWith('.yaml') || name.endsWith('.yml')) {
+    return parseYaml(text) ?? undefined;
+  }
+  if (/\.[cm]?ts$/.test(name)) {
+    return evaluateTsConfig(text, filePath);
+  }
+  return evaluateJsConfig(text, filePath);
+}
+
+/**
+ * Compile a TypeScript config with the workspace's own `typescript` package, which
+ * commitlint needs for these configs too, then evaluate it as JavaScript
+ */
+function evaluateTsConfig(source: string, filePath: string): Record<string, unknown> | undefined {
+  if (!vscode.workspace.isTrusted) {
+    return undefined;
+  }
+
+  let ts: { transpileModule(input: string, options: object): { outputText: string } };
+  try {
+    ts = createRequire(filePath)('typescript');
+  } catch {
+    throw new Error('TypeScript configs need the typescript package installed in the workspace');
+  }
+  // Module kind 1 is CommonJS
+  const { outputText } = ts.transpileModule(source, { compilerOptions: { module: 1, esModuleInterop: true }, fileName: filePath });
+  return evaluateJsConfig(outputText, filePath);
+}
+
+/**
+ * Evaluate a JavaScript config file. This runs workspace code, so only in trusted workspaces.
+ */
+function evaluateJsConfig(source: string, filePath: string): Record<string, unknown> | undefined {
+  if (!vscode.workspace.isTrusted) {
+    return undefined;
+  }
+
+  // Most ESM configs are a single default export, which reads the same as a CommonJS one
+  const code = source.replace(/\bexport\s+default\s+/, 'module.exports = ');
+  const module = { exports: {} as unknown };
+  vm.runInNewContext(code, {
+    module,
+    exports: module.exports,
+    require: createRequire(filePath),
+    process,
+    __filename: filePath,
+    __dirname: path.dirname(filePath)
+  }, { filename: filePath, timeout: 1000 });
+
+  const exported = module.exports as { default?: unknown };
+  return (exported.default ?? exported) as Record<string, unknown>;
+}
+
+/**
+ * Merge the rules of extended configs (in order) with the config's own rules
+ */
+function resolveRules(raw: Record<string, unknown>, filePath: string, depth = 0): Record<string, RuleConfig> {
+  const rules: Record<string, RuleConfig> = {};
+  const extendsList = raw.extends === undefined ? [] : Array.isArray(raw.extends) ? raw.extends : [raw.extends];
+
+  for (const name of extendsList.map(String)) {
+    if (name === '@commitlint/config-conventional' || name === 'conventional') {
+      Object.assign(rules, CONVENTIONAL_RULES);
+      continue;
+    }
+    if (depth > 5 || !vscode.workspace.isTrusted) {
+      continue;
+    }
+    try {
+      const resolved = createRequire(filePath).resolve(name.startsWith('.') ? path.resolve(path.dirname(filePath), name) : name);
+      const text = fs.readFileSync(resolved, 'utf8');
+      const extended = resolved.endsWith('.json')
+        ? JSON.parse(text)
+        : /\.ya?ml$/.test(resolved) ? parseYaml(text) : evaluateJsConfig(text, resolved);
+      if (extended) {
+        Object.assign(rules, resolveRules(extended, resolved, depth + 1));
+      }
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      vscode.window.showWarningMessage(`GitToys: Could not load the commitlint config ${name} extended by ${path.basename(filePath)} - ${errorMsg}`);
+    }
+  }
+
+  Object.assign(rules, raw.rules as Record<string, RuleConfig> | undefined);
+  return rules;
+}
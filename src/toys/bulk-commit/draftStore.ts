@@ -0,0 +1,85 @@
+import * as vscode from 'vscode';
+import { BulkCommitDraft, DraftSummary } from '../../types/messages';
+
+/**
+ * Bulk Commit drafts kept in workspace storage, one per repository and branch
+ */
+
+const DRAFTS_KEY = 'gittoys.bulkCommitDrafts';
+
+interface StoredDraft {
+  rootPath: string;
+  branch: string;
+  /** Milliseconds since the epoch */
+  updatedAt: number;
+  draft: BulkCommitDraft;
+}
+
+export class DraftStore {
+  constructor(private readonly _state: vscode.Memento) {}
+
+  /** Branch names can't contain `:`, so the id can't be ambiguous */
+  static getId(rootPath: string, branch: string): string {
+    return `${rootPath}::${branch}`;
+  }
+
+  get(id: string): BulkCommitDraft | undefined {
+    return this._getAll()[id]?.draft;
+  }
+
+  /**
+   * Save the draft of a branch; a draft without messages is removed instead
+   */
+  async save(rootPath: string, branch: string, draft: BulkCommitDraft): Promise<void> {
+    const drafts = this._getAll();
+    const id = DraftStore.getId(rootPath, branch);
+    if (isDraftEmpty(draft)) {
+      if (!drafts[id]) {
+        return;
+      }
+      delete drafts[id];
+    } else {
+      drafts[id] = { rootPath, branch, updatedAt: Date.now(), draft };
+    }
+    await this._state.update(DRAFTS_KEY, drafts);
+  }
+
+  async delete(id: string): Promise<void> {
+    const drafts = this._getAll();
+    delete drafts[id];
+    await this._state.update(DRAFTS_KEY, drafts);
+  }
+
+  /**
+   * All drafts, most recently edited first
+   */
+  list(): DraftSummary[] {
+    return Object.entries(this._getAll())
+      .sort(([, a], [, b]) => b.updatedAt - a.updatedAt)
+      .map(([id, stored]) => ({
+        id,
+        // The draft of the panel showing every repository has no root
+        repoName: stored.rootPath ? stored.rootPath.split(/[/\\]/).pop() || stored.rootPath : 'All repositories',
+        rootPath: stored.rootPath,
+        branch: stored.branch,
+        updatedAt: new Date(stored.updatedAt).toISOString(),
+        messageCount: countMessages(stored.draft)
+      }));
+  }
+
+  private _getAll(): Record<string, StoredDraft> {
+    return { ...this._state.get<Record<string, StoredDraft>>(DRAFTS_KEY, {}) };
+  }
+}
+
+function countMessages(draft: BulkCommitDraft): number {
+  return Object.values(draft.commitMessages || {}).filter(m => m.trim()).length +
+    (draft.commitGroups || []).filter(g => g.message.trim()).length;
+}
+
+function isDraftEmpty(draft: BulkCommitDraft): boolean {
+  return countMessages(draft) === 0 &&
+    Object.values(draft.commitBodies || {}).every(b => !b.trim()) &&
+    Object.values(draft.commitTrailers || {}).every(t => t.length === 0) &&
+    (draft.commitGroups || []).length === 0;
+}
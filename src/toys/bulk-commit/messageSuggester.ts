@@ -0,0 +1,245 @@
+import { FileStatus } from '../../git/gitService';
+import { parseFileDiff } from '../../git/diffParser';
+import { inferCommitType, formatCommitPrefix } from './scopeInference';
+
+/**
+ * Offline, rule-based commit message suggestions from a file's diff
+ */
+
+export interface SuggestionInput {
+  relativePath: string;
+  status: FileStatus;
+  /** Unified diff of the file against HEAD; empty for untracked files */
+  diff: string;
+  scope?: string;
+}
+
+export interface MessageSuggestion {
+  type: string;
+  message: string;
+}
+
+/** Declarations of named functions, methods and classes in common languages */
+const DECLARATION_PATTERNS = [
+  /^\s*(?:export\s+)?(?:default\s+)?(?:async\s+)?function\s*\*?\s*([A-Za-z_$][\w$]*)/,
+  /^\s*(?:export\s+)?(?:const|let|var)\s+([A-Za-z_$][\w$]*)\s*=\s*(?:async\s+)?(?:function\b|\([^)]*\)\s*(?::[^=]+)?=>|[A-Za-z_$][\w$]*\s*=>)/,
+  /^\s*(?:export\s+)?(?:default\s+)?(?:abstract\s+)?(?:class|interface|enum)\s+([A-Za-z_$][\w$]*)/,
+  /^\s*(?:public\s+|private\s+|protected\s+|static\s+|async\s+|readonly\s+)*([A-Za-z_$][\w$]*)\s*\([^)]*\)\s*(?::\s*[^{]+)?\{\s*$/,
+  /^\s*(?:async\s+)?def\s+([A-Za-z_]\w*)/,
+  /^\s*func\s+(?:\([^)]*\)\s*)?([A-Za-z_]\w*)/,
+  /^\s*(?:pub\s+)?fn\s+([A-Za-z_]\w*)/
+];
+
+/** Words that look like method declarations but are control flow */
+const KEYWORDS = new Set(['if', 'for', 'while', 'switch', 'catch', 'with', 'return', 'function', 'constructor']);
+
+/** Dependency entries of package.json: `"name": "version"` */
+const DEPENDENCY_LINE = /^\s*"(@?[\w./-]+)":\s*"([^"]+)",?\s*$/;
+
+/** Blocks of package.json that list dependencies */
+const DEPENDENCY_BLOCKS = new Set(['dependencies', 'devDependencies', 'peerDependencies', 'optionalDependencies']);
+
+/**
+ * Propose a Conventional Commit message for a single file
+ */
+export function suggestCommitMessage(input: SuggestionInput): MessageSuggestion {
+  const { relativePath, status, diff, scope } = input;
+  const fileName = relativePath.split('/').pop() || relativePath;
+  const baseType = inferCommitType(relativePath, status);
+  const suggest = (type: string, subject: string, suggestedScope = scope): MessageSuggestion => ({
+    type,
+    message: formatCommitPrefix(type, suggestedScope) + subject
+  });
+
+  if (status === 'deleted') {
+    return suggest(baseType, `remove ${fileName}`);
+  }
+  if (status === 'renamed') {
+    return suggest('refactor', `rename ${fileName}`);
+  }
+
+  const { added, removed } = collectChangedLines(diff);
+
+  if (fileName === 'package.json') {
+    const deps = describeDependencyChanges(diff);
+    if (deps) {
+      return suggest('build', deps, 'deps');
+    }
+  }
+
+  if (status === 'added' || status === 'untracked') {
+    if (baseType === 'test') {
+      return suggest('test', `add tests for ${stripTestSuffix(fileName)}`);
+    }
+    return suggest(baseType, `add ${fileName}`);
+  }
+
+  if (baseType === 'docs') {
+    return suggest('docs', `update ${fileName}`);
+  }
+
+  if (added.length + removed.length > 0 && isWhitespaceOnly(added, removed)) {
+    return suggest('style', `format ${fileName}`);
+  }
+
+  const addedSymbols = findDeclarations(added);
+  const removedSymbols = findDeclarations(removed);
+  const newSymbols = addedSymbols.filter(s => !removedSymbols.includes(s));
+  const goneSymbols = removedSymbols.filter(s => !addedSymbols.includes(s));
+
+  if (baseType === 'test') {
+    return suggest('test', `update tests for ${stripTestSuffix(fileName)}`);
+  }
+  if (newSymbols.length === 1 && goneSymbols.length === 1 && isRename(added, removed, goneSymbols[0], newSymbols[0])) {
+    return suggest('refactor', `rename ${goneSymbols[0]} to ${newSymbols[0]}`);
+  }
+  if (newSymbols.length > 0 && goneSymbols.length === 0) {
+    return suggest('feat', `add ${listSymbols(newSymbols)}`);
+  }
+  if (goneSymbols.length > 0 && newSymbols.length === 0) {
+    return suggest('refactor', `remove ${listSymbols(goneSymbols)}`);
+  }
+  if (removed.length === 0 && added.length > 0) {
+    return suggest(baseType === 'fix' ? 'feat' : baseType, `extend ${fileName}`);
+  }
+
+  return suggest(baseType, `update ${fileName}`);
+}
+
+function collectChangedLines(diff: string): { added: string[]; removed: string[] } {
+  const added: string[] = [];
+  const removed: string[] = [];
+  if (!diff) {
+    return { added, removed };
+  }
+  for (const hunk of parseFileDiff(diff).hunks) {
+    for (const line of hunk.lines) {
+      if (line.startsWith('+')) {
+        added.push(line.slice(1));
+      } else if (line.startsWith('-')) {
+        removed.push(line.slice(1));
+      }
+    }
+  }
+  return { added, removed };
+}
+
+function findDeclarations(lines: string[]): string[] {
+  const names: string[] = [];
+  for (const line of lines) {
+    for (const pattern of DECLARATION_PATTERNS) {
+      const match = pattern.exec(line);
+      if (match && !KEYWORDS.has(match[1])) {
+        if (!names.includes(match[1])) {
+          names.push(match[1]);
+        }
+        break;
+      }
+    }
+  }
+  return names;
+}
+
+/**
+ * A rename replaces every use of the old name and changes nothing else
+ */
+function isRename(added: string[], removed: string[], oldName: string, newName: string): boolean {
+  if (added.length !== removed.length) {
+    return false;
+  }
+  const pattern = new RegExp(`\\b${oldName.replace(/\$/g, '\\$')}\\b`, 'g');
+  return removed.every((line, i) => line.replace(pattern, () => newName) === added[i]);
+}
+
+function isWhitespaceOnly(added: string[], removed: string[]): boolean {
+  const squash = (lines: string[]) => lines.join('').replace(/\s+/g, '');
+  return squash(added) === squash(removed);
+}
+
+/**
+ * Changed `"name": "version"` lines of a package.json diff that are inside a dependency block
+ */
+function collectDependencyLines(diff: string): { added: string[]; removed: string[] } {
+  const added: string[] = [];
+  const removed: string[] = [];
+  for (const hunk of parseFileDiff(diff).hunks) {
+    // The block a hunk starts in is only known once its opening line shows up;
+    // until then anything but the package's own version may be a dependency
+    let block: string | undefined;
+    for (const line of hunk.lines) {
+      const content = line.slice(1);
+      const opening = /^\s*"([^"]+)":\s*\{\s*$/.exec(content);
+      if (opening) {
+        block = opening[1];
+        continue;
+      }
+      if (/^\s*\},?\s*$/.test(content)) {
+        block = '';
+        continue;
+      }
+      const match = DEPENDENCY_LINE.exec(content);
+      const inDependencies = block === undefined ? match?.[1] !== 'version' : DEPENDENCY_BLOCKS.has(block);
+      if (!match || !inDependencies) {
+        continue;
+      }
+      if (line.startsWith('+')) {
+        added.push(content);
+      } else if (line.startsWith('-')) {
+        removed.push(content);
+      }
+    }
+  }
+  return { added, removed };
+}
+
+/**
+ * Describe added, removed and bumped dependencies; undefined if no dependency changed
+ */
+function describeDependencyChanges(diff: string): string | undefined {
+  const { added, removed } = collectDependencyLines(diff);
+  const parse = (lines: string[]) => {
+    const deps = new Map<string, string>();
+    for (const line of lines) {
+      const match = DEPENDENCY_LINE.exec(line);
+      // Only version ranges, not other strings of a dependency block
+      if (match && /^[\^~<>=*\d]|^(latest|workspace:|npm:|file:|git)/.test(match[2])) {
+        deps.set(match[1], match[2]);
+      }
+    }
+    return deps;
+  };
+  const before = parse(removed);
+  const after = parse(added);
+
+  const bumped = [...after.keys()].filter(name => before.has(name) && before.get(name) !== after.get(name));
+  const addedDeps = [...after.keys()].filter(name => !before.has(name));
+  const removedDeps = [...before.keys()].filter(name => !after.has(name));
+
+  if (bumped.length === 1 && addedDeps.length === 0 && removedDeps.length === 0) {
+    const name = bumped[0];
+    return `bump ${name} from ${before.get(name)} to ${after.get(name)}`;
+  }
+
+  const parts: string[] = [];
+  if (bumped.length > 0) {
+    parts.push(`bump ${listSymbols(bumped)}`);
+  }
+  if (addedDeps.length > 0) {
+    parts.push(`add ${listSymbols(addedDeps)}`);
+  }
+  if (removedDeps.length > 0) {
+    parts.push(`remove ${listSymbols(removedDeps)}`);
+  }
+  return parts.length > 0 ? parts.join(', ') : undefined;
+}
+
+function listSymbols(names: string[]): string {
+  if (names.length > 3) {
+    return `${names.slice(0, 2).join(', ')} and ${names.length - 2} more`;
+  }
+  return names.length === 1 ? names[0] : `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}`;
+}
+
+function stripTestSuffix(fileName: string): string {
+  return fileName.replace(/\.(test|spec)(?=\.[^.]+$)/, '').replace(/\.[^.]+$/, '');
+}
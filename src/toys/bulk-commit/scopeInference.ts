@@ -0,0 +1,172 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { FileStatus } from '../../git/gitService';
+
+/**
+ * Infers the Conventional Commit type and scope of a file from its path
+ */
+
+export interface ScopeRule {
+  glob: string;
+  scope: string;
+}
+
+/**
+ * Resolves the scope of a path relative to the repository root
+ */
+export type ScopeResolver = (relativePath: string) => string | undefined;
+
+/**
+ * Build a resolver for a repository. Scope rules from the settings win,
+ * then monorepo packages, then the file's folder.
+ */
+export async function createScopeResolver(rootPath: string): Promise<ScopeResolver> {
+  const config = vscode.workspace.getConfiguration('gittoys', vscode.Uri.file(rootPath));
+  const rules = config.get<ScopeRule[]>('bulkCommit.scopeRules', [])
+    .filter(rule => rule.glob && rule.scope)
+    .map(rule => ({ pattern: globToRegExp(rule.glob), scope: rule.scope }));
+  const packagePatterns = (await findWorkspacePackages(rootPath)).map(globToRegExp);
+
+  return (relativePath: string) => {
+    // A rule matches the file itself or one of its folders
+    const segments = relativePath.split('/');
+    const paths = segments.map((_, i) => segments.slice(0, i + 1).join('/'));
+    const rule = rules.find(r => paths.some(p => r.pattern.test(p)));
+    if (rule) {
+      return rule.scope;
+    }
+
+    // The scope of a monorepo file is the package directory it lives in
+    for (let i = 1; i < segments.length; i++) {
+      const dir = segments.slice(0, i).join('/');
+      if (packagePatterns.some(p => p.test(dir))) {
+        return segments[i - 1];
+      }
+    }
+
+    return segments.length > 1 ? segments[segments.length - 2] : undefined;
+  };
+}
+
+/**
+ * Guess the Conventional Commit type of a change to a single file
+ */
+export function inferCommitType(relativePath: string, status: FileStatus): string {
+  const fileName = relativePath.split('/').pop() || relativePath;
+
+  if (/\.(md|mdx|rst|adoc|txt)$/i.test(fileName) || /^docs?\//.test(relativePath)) {
+    return 'docs';
+  }
+  if (/(^|\/)(tests?|__tests__|spec)\//.test(relativePath) || /\.(test|spec)\.[^.]+$/.test(fileName)) {
+    return 'test';
+  }
+  if (/^\.(github\/workflows|circleci)\//.test(relativePath) || /^\.gitlab-ci\.ya?ml$/.test(relativePath)) {
+    return 'ci';
+  }
+  if (/^(package(-lock)?\.json|yarn\.lock|pnpm-lock\.yaml|tsconfig(\..+)?\.json|(esbuild|webpack|rollup|vite)\.config\.[cm]?[jt]s)$/.test(fileName)) {
+    return 'build';
+  }
+
+  switch (status) {
+    case 'added':
+    case 'untracked':
+      return 'feat';
+    case 'renamed':
+      return 'refactor';
+    case 'deleted':
+      return 'chore';
+    default:
+      return 'fix';
+  }
+}
+
+/**
+ * Format the `type(scope): ` prefix of a message
+ */
+export function formatCommitPrefix(type: string, scope?: string): string {
+  return scope ? `${type}(${scope}): ` : `${type}: `;
+}
+
+/**
+ * Package globs of an npm/yarn, pnpm or lerna workspace; `packages/*` if there is
+ * no manifest but a packages folder
+ */
+async function findWorkspacePackages(rootPath: string): Promise<string[]> {
+  const read = (file: string) => fs.promises.readFile(path.join(rootPath, file), 'utf8').catch(() => undefined);
+  const patterns: string[] = [];
+
+  const packageJson = await read('package.json');
+  if (packageJson) {
+    try {
+      const workspaces = JSON.parse(packageJson).workspaces;
+      patterns.push(...(Array.isArray(workspaces) ? workspaces : workspaces?.packages || []));
+    } catch {
+      // Not valid JSON - no workspaces
+    }
+  }
+
+  const lernaJson = await read('lerna.json');
+  if (lernaJson) {
+    try {
+      patterns.push(...(JSON.parse(lernaJson).packages || []));
+    } catch {
+      // Not valid JSON - no packages
+    }
+  }
+
+  // Only the `packages:` list is needed, so read its items instead of parsing YAML
+  const pnpmWorkspace = await read('pnpm-workspace.yaml');
+  if (pnpmWorkspace) {
+    const list = /^packages:\s*\n((?:[ \t]+-.*\n?|[ \t]*#.*\n?)*)/m.exec(pnpmWorkspace);
+    list?.[1].split('\n').forEach(line => {
+      const item = /^\s*-\s*['"]?([^'"#]+?)['"]?\s*(#.*)?$/.exec(line);
+      if (item) {
+        patterns.push(item[1]);
+      }
+    });
+  }
+
+  if (patterns.length === 0) {
+    const stat = await fs.promises.stat(path.join(rootPath, 'packages')).catch(() => undefined);
+    if (stat?.isDirectory()) {
+      patterns.push('packages/*');
+    }
+  }
+
+  return patterns
+    .map(String)
+    .filter(p => !p.startsWith('!'))
+    .map(p => p.replace(/^\.\//, '').replace(/\/+$/, ''));
+}
+
+/**
+ * Convert a glob (`*`, `**`, `?`, `{a,b}`) to an anchored regular expression
+ */
+function globToRegExp(glob: string): RegExp {
+  let source = '';
+  let braces = 0;
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*' && glob[i + 1] === '*') {
+      // `**/` matches any number of folders, including none
+      source += glob[i + 2] === '/' ? '(?:.*/)?' : '.*';
+      i += glob[i + 2] === '/' ? 2 : 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '{') {
+      braces++;
+      source += '(?:';
+    } else if (char === '}' && braces > 0) {
+      braces--;
+      source += ')';
+    } else if (char === ',' && braces > 0) {
+      source += '|';
+    } else {
+      source += char.replace(/[.+^$()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
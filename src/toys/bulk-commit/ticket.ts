@@ -0,0 +1,68 @@
+import * as vscode from 'vscode';
+import { parseCommitHeader } from './commitLinter';
+
+/**
+ * Ticket references taken from the branch name (e.g. `feature/PROJ-1234-thing`)
+ */
+
+export type TicketPlacement = 'none' | 'prefix' | 'suffix' | 'trailer';
+
+export interface TicketSettings {
+  pattern: string;
+  placement: TicketPlacement;
+  trailer: string;
+}
+
+/**
+ * Read the ticket settings; folder settings of the repository override the workspace ones
+ */
+export function getTicketSettings(rootPath?: string): TicketSettings {
+  const config = vscode.workspace.getConfiguration('gittoys', rootPath ? vscode.Uri.file(rootPath) : undefined);
+  return {
+    pattern: config.get<string>('ticket.branchPattern', '[A-Z][A-Z0-9]+-\\d+'),
+    placement: config.get<TicketPlacement>('ticket.placement', 'none'),
+    trailer: config.get<string>('ticket.trailer', 'Refs')
+  };
+}
+
+/**
+ * Pull the ticket ID out of a branch name: the first capture group if the pattern has one, else the whole match
+ */
+export function extractTicket(branch: string, pattern: string): string | undefined {
+  try {
+    const match = new RegExp(pattern).exec(branch);
+    return match ? match[1] || match[0] : undefined;
+  } catch {
+    // An invalid pattern simply finds no ticket
+    return undefined;
+  }
+}
+
+/**
+ * Add the ticket to a message unless the message already mentions it.
+ * A prefix goes after the `type(scope):` part so Conventional Commit headers stay valid.
+ */
+export function applyTicket(message: string, ticket: string | undefined, settings: TicketSettings): string {
+  if (!ticket || settings.placement === 'none' || !message.trim() || message.includes(ticket)) {
+    return message;
+  }
+
+  const lines = message.replace(/\s+$/, '').split(/\r?\n/);
+  switch (settings.placement) {
+    case 'prefix': {
+      const parsed = parseCommitHeader(lines[0]);
+      const type = parsed ? lines[0].slice(0, lines[0].length - parsed.subject.length) : '';
+      lines[0] = `${type}${ticket} ${lines[0].slice(type.length)}`;
+      return lines.join('\n');
+    }
+    case 'suffix':
+      lines[0] = `${lines[0]} (${ticket})`;
+      return lines.join('\n');
+    case 'trailer': {
+      // Join an existing trailer block, otherwise start one after a blank line
+      const last = lines[lines.length - 1];
+      const separator = lines.length > 1 && /^[\w-]+: /.test(last) ? '\n' : '\n\n';
+      return `${lines.join('\n')}${separator}${settings.trailer}: ${ticket}`;
+    }
+  }
+}
@@ -0,0 +1,181 @@
+import * as vscode from 'vscode';
+import { GitService, StashEntry } from '../../git/gitService';
+import { Repository } from '../../types/git';
+import { StashFileItem, StashItem, StashTreeProvider } from './stashTreeProvider';
+import { formatAge } from '../../utils/format';
+
+/**
+ * Commands of the Stash Manager. Each takes the tree item it was run on, or asks for
+ * a stash when run from the Command Palette.
+ */
+
+interface StashTarget {
+  stash: StashEntry;
+  repository?: Repository;
+}
+
+/**
+ * The stash of a tree item, or one picked from a quick pick
+ */
+async function resolveStash(gitService: GitService, item: StashItem | undefined, placeHolder: string): Promise<StashTarget | undefined> {
+  if (item) {
+    return { stash: item.stash, repository: gitService.getRepositoryByRoot(item.rootPath) };
+  }
+
+  const stashes = await gitService.getStashes();
+  if (stashes.length === 0) {
+    vscode.window.showInformationMessage('GitToys: No stashes');
+    return undefined;
+  }
+  const picked = await vscode.window.showQuickPick(
+    stashes.map(stash => ({
+      label: stash.message || stash.ref,
+      description: [stash.ref, stash.branch, formatAge(stash.date)].filter(Boolean).join(' · '),
+      stash
+    })),
+    { placeHolder }
+  );
+  return picked ? { stash: picked.stash } : undefined;
+}
+
+async function runStashAction(
+  provider: StashTreeProvider,
+  title: string,
+  action: () => Promise<void>
+): Promise<boolean> {
+  try {
+    await action();
+    return true;
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : String(error);
+    vscode.window.showErrorMessage(`GitToys: ${title} failed - ${errorMsg}`);
+    return false;
+  } finally {
+    provider.refresh();
+  }
+}
+
+/**
+ * Stash with a description: all changes, including untracked files, or only picked files
+ */
+export async function createStash(gitService: GitService, provider: StashTreeProvider): Promise<void> {
+  const changes = await gitService.getChangedFiles();
+  if (changes.length === 0) {
+    vscode.window.showInformationMessage('GitToys: No changes to stash');
+    return;
+  }
+
+  const message = await vscode.window.showInputBox({
+    title: 'Stash Changes',
+    prompt: 'Description of the stash',
+    placeHolder: 'e.g. WIP: login form validation'
+  });
+  if (message === undefined) {
+    return;
+  }
+
+  const untrackedCount = changes.filter(c => c.status === 'untracked').length;
+  const scope = await vscode.window.showQuickPick([
+    { label: '$(git-stash) Tracked Changes', description: `${changes.length - untrackedCount} file(s)`, value: 'tracked' },
+    { label: '$(new-file) Including Untracked Files', description: `${changes.length} file(s)`, value: 'all' },
+    { label: '$(checklist) Selected Files...', description: 'Pick the files to stash', value: 'selected' }
+  ], { title: 'Stash Changes', placeHolder: 'What to stash' });
+  if (!scope) {
+    return;
+  }
+
+  let paths: string[] | undefined;
+  let includeUntracked = scope.value === 'all';
+  if (scope.value === 'selected') {
+    const picked = await vscode.window.showQuickPick(
+      changes.map(change => ({ label: change.relativePath, description: change.status, change })),
+      { title: 'Stash Changes', placeHolder: 'Files to stash', canPickMany: true }
+    );
+    if (!picked || picked.length === 0) {
+      return;
+    }
+    paths = picked.map(p => p.change.path);
+    // Untracked files are only stashed when git is told to include them
+    includeUntracked = picked.some(p => p.change.status === 'untracked');
+  }
+
+  let stash: StashEntry | undefined;
+  const stashed = await runStashAction(provider, 'Stash', async () => {
+    stash = await gitService.createStash(message.trim(), { includeUntracked, paths });
+  });
+  if (stashed) {
+    vscode.window.showInformationMessage(stash ? `GitToys: Stashed ${paths ? `${paths.length} file(s)` : 'changes'}` : 'GitToys: No changes to stash');
+  }
+}
+
+export async function applyStash(gitService: GitService, provider: StashTreeProvider, item?: StashItem): Promise<void> {
+  const target = await resolveStash(gitService, item, 'Stash to apply');
+  if (target) {
+    await runStashAction(provider, 'Apply stash', () => gitService.applyStash(target.stash, target.repository));
+  }
+}
+
+export async function popStash(gitService: GitService, provider: StashTreeProvider, item?: StashItem): Promise<void> {
+  const target = await resolveStash(gitService, item, 'Stash to pop');
+  if (target) {
+    await runStashAction(provider, 'Pop stash', () => gitService.popStash(target.stash, target.repository));
+  }
+}
+
+export async function dropStash(gitService: GitService, provider: StashTreeProvider, item?: StashItem): Promise<void> {
+  const target = await resolveStash(gitService, item, 'Stash to drop');
+  if (!target) {
+    return;
+  }
+
+  const confirm = await vscode.window.showWarningMessage(
+    `Drop "${target.stash.message || target.stash.ref}"? This cannot be undone.`,
+    { modal: true },
+    'Drop'
+  );
+  if (confirm === 'Drop') {
+    await runStashAction(provider, 'Drop stash', () => gitService.dropStash(target.stash, target.repository));
+  }
+}
+
+export async function renameStash(gitService: GitService, provider: StashTreeProvider, item?: StashItem): Promise<void> {
+  const target = await resolveStash(gitService, item, 'Stash to rename');
+  if (!target) {
+    return;
+  }
+
+  const message = await vscode.window.showInputBox({
+    title: 'Rename Stash',
+    prompt: 'New description of the stash',
+    value: target.stash.message,
+    validateInput: value => value.trim() ? undefined : 'The description cannot be empty'
+  });
+  if (message && message.trim() !== target.stash.message) {
+    await runStashAction(provider, 'Rename stash', () =>
+      gitService.renameStash(target.stash, message.trim(), target.repository)
+    );
+  }
+}
+
+/**
+ * Filter the view to stashes whose message or changes contain a text
+ */
+export async function searchStashes(provider: StashTreeProvider): Promise<void> {
+  const query = await vscode.window.showInputBox({
+    title: 'Search Stashes',
+    prompt: 'Text in the stash message or its changes',
+    value: provider.query
+  });
+  if (query !== undefined) {
+    provider.setQuery(query.trim());
+  }
+}
+
+export async function openStashFileDiff(gitService: GitService, item: StashFileItem): Promise<void> {
+  try {
+    await gitService.openStashFileDiff(item.stash, item.file, gitService.getRepositoryByRoot(item.rootPath));
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : String(error);
+    vscode.window.showErrorMessage(`GitToys: Could not open changes - ${errorMsg}`);
+  }
+}
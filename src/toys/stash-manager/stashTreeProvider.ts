@@ -0,0 +1,149 @@
+import * as vscode from 'vscode';
+import { GitService, StashEntry, StashFile } from '../../git/gitService';
+import { formatAge } from '../../utils/format';
+
+const STATUS_ICONS: Record<StashFile['status'], string> = {
+  modified: 'diff-modified',
+  added: 'diff-added',
+  deleted: 'diff-removed',
+  renamed: 'diff-renamed',
+  untracked: 'question',
+  conflicted: 'warning'
+};
+
+/**
+ * Stashes of the active repository with their files, optionally filtered by a search
+ */
+export class StashTreeProvider implements vscode.TreeDataProvider<StashTreeItem> {
+  private _onDidChangeTreeData: vscode.EventEmitter<StashTreeItem | undefined | null | void> =
+    new vscode.EventEmitter<StashTreeItem | undefined | null | void>();
+  readonly onDidChangeTreeData: vscode.Event<StashTreeItem | undefined | null | void> =
+    this._onDidChangeTreeData.event;
+
+  private _query: string | undefined;
+  /** Root of the repository whose stashes are shown */
+  private _rootPath: string | undefined;
+  private _refreshTimer: NodeJS.Timeout | undefined;
+
+  constructor(private gitService: GitService) {}
+
+  /** Current search, matched against stash messages and contents */
+  get query(): string | undefined {
+    return this._query;
+  }
+
+  setQuery(query: string | undefined): void {
+    this._query = query || undefined;
+    vscode.commands.executeCommand('setContext', 'gittoys.stashSearchActive', !!this._query);
+    this.refresh();
+  }
+
+  refresh(): void {
+    clearTimeout(this._refreshTimer);
+    this._refreshTimer = undefined;
+    this._onDidChangeTreeData.fire();
+  }
+
+  /**
+   * Refresh once the repository settles: its state changes come in bursts, and most of
+   * them (saves, staging) leave the stash list as it was
+   */
+  scheduleRefresh(): void {
+    clearTimeout(this._refreshTimer);
+    this._refreshTimer = setTimeout(() => this.refresh(), 1000);
+  }
+
+  /**
+   * Refresh when another repository became the active one
+   */
+  refreshIfRepositoryChanged(): void {
+    if (this.gitService.getRepositoryInfo()?.rootPath !== this._rootPath) {
+      this.refresh();
+    }
+  }
+
+  getTreeItem(element: StashTreeItem): vscode.TreeItem {
+    return element;
+  }
+
+  async getChildren(element?: StashTreeItem): Promise<StashTreeItem[]> {
+    if (element instanceof StashItem) {
+      const repository = this.gitService.getRepositoryByRoot(element.rootPath);
+      const files = await this.gitService.getStashFiles(element.stash, repository);
+      return files.map(file => new StashFileItem(element.stash, file, element.rootPath));
+    }
+    if (element) {
+      return [];
+    }
+
+    const repoInfo = this.gitService.getRepositoryInfo();
+    this._rootPath = repoInfo?.rootPath;
+    if (!repoInfo) {
+      return [new StashMessageItem('No repository', 'warning')];
+    }
+
+    const repository = this.gitService.getRepositoryByRoot(repoInfo.rootPath);
+    try {
+      const stashes = this._query
+        ? await this.gitService.searchStashes(this._query, repository)
+        : await this.gitService.getStashes(repository);
+      if (stashes.length === 0) {
+        return [new StashMessageItem(this._query ? `No stashes match "${this._query}"` : 'No stashes', 'info')];
+      }
+      return stashes.map(stash => new StashItem(stash, repoInfo.rootPath));
+    } catch (error) {
+      return [new StashMessageItem(`Could not list stashes: ${error instanceof Error ? error.message : String(error)}`, 'error')];
+    }
+  }
+}
+
+export type StashTreeItem = StashItem | StashFileItem | StashMessageItem;
+
+export class StashItem extends vscode.TreeItem {
+  constructor(
+    public readonly stash: StashEntry,
+    public readonly rootPath: string
+  ) {
+    super(stash.message || stash.ref, vscode.TreeItemCollapsibleState.Collapsed);
+
+    this.id = `${rootPath}:${stash.hash}`;
+    this.description = [stash.branch, formatAge(stash.date)].filter(Boolean).join(' · ');
+    this.iconPath = new vscode.ThemeIcon('archive');
+    this.contextValue = 'stash';
+    this.tooltip = new vscode.MarkdownString([
+      `**${stash.ref}**: ${stash.message}`,
+      '',
+      `- Branch: ${stash.branch || 'unknown'}`,
+      `- Created: ${stash.date.toLocaleString()}`,
+      `- Commit: ${stash.hash.slice(0, 7)}`
+    ].join('\n'));
+  }
+}
+
+export class StashFileItem extends vscode.TreeItem {
+  constructor(
+    public readonly stash: StashEntry,
+    public readonly file: StashFile,
+    public readonly rootPath: string
+  ) {
+    super(file.path.split('/').pop() || file.path, vscode.TreeItemCollapsibleState.None);
+
+    const folder = file.path.includes('/') ? file.path.slice(0, file.path.lastIndexOf('/')) : '';
+    this.description = folder ? `${folder} · ${file.status}` : file.status;
+    this.tooltip = `${file.path} (${file.status})`;
+    this.iconPath = new vscode.ThemeIcon(STATUS_ICONS[file.status]);
+    this.contextValue = 'stashFile';
+    this.command = {
+      command: 'gittoys.stash.openFileDiff',
+      title: 'Open Changes',
+      arguments: [this]
+    };
+  }
+}
+
+export class StashMessageItem extends vscode.TreeItem {
+  constructor(label: string, iconName: string) {
+    super(label, vscode.TreeItemCollapsibleState.None);
+    this.iconPath = new vscode.ThemeIcon(iconName);
+  }
+}
@@ -0,0 +1,42 @@
+/*---------------------------------------------------------------------------------------------
+ *  GitToys Extension API Type Definitions
+ *  Returned from activate(); get it with vscode.extensions.getExtension('gittoys.gittoys')
+ *--------------------------------------------------------------------------------------------*/
+
+import { Uri, Disposable, CancellationToken, ProviderResult } from 'vscode';
+
+/**
+ * The file a commit message is wanted for
+ */
+export interface CommitMessageContext {
+  readonly repositoryRoot: Uri;
+  readonly uri: Uri;
+  /** Path relative to the repository root, with forward slashes */
+  readonly relativePath: string;
+  readonly status: 'modified' | 'added' | 'deleted' | 'renamed' | 'untracked' | 'conflicted';
+  /** Unified diff against HEAD; empty for untracked files */
+  readonly diff: string;
+  readonly branch: string;
+  /** Conventional Commit scope GitToys inferred from the path */
+  readonly scope?: string;
+}
+
+export interface CommitMessageSuggestion {
+  readonly message: string;
+  /** Shown next to the suggestion; defaults to the provider's label */
+  readonly description?: string;
+}
+
+export interface CommitMessageProvider {
+  /** Name shown with the provider's suggestions */
+  readonly label: string;
+  provideCommitMessages(context: CommitMessageContext, token: CancellationToken): ProviderResult<CommitMessageSuggestion[]>;
+}
+
+export interface GitToysAPI {
+  readonly version: 1;
+  /**
+   * Offer commit message suggestions for the files in the Bulk Commit panel
+   */
+  registerCommitMessageProvider(provider: CommitMessageProvider): Disposable;
+}
@@ -5,11 +5,28 @@
 // Messages FROM webview TO extension
 export type WebviewMessage =
   | { command: 'getChangedFiles' }
-  | { command: 'commitFiles'; commits: CommitRequest[] }
+  | { command: 'commitFiles'; groups: CommitGroupRequest[]; atomic?: boolean; options?: CommitOptionsInfo }
+  | { command: 'confirmCommit' }
+  | { command: 'discardPlan' }
+  | { command: 'cancelCommit' }
+  | { command: 'openCommit'; hash: string; rootPath?: string }
+  | { command: 'copyResultSummary' }
+  | { command: 'retryCommit'; index: number; noVerify: boolean }
+  | { command: 'setCoAuthors'; coAuthors: string[] }
+  | { command: 'setAuthor'; author?: string }
+  | { command: 'saveDraft'; rootPath: string; branch: string; draft: BulkCommitDraft }
+  | { command: 'getDrafts' }
+  | { command: 'restoreDraft'; id: string }
+  | { command: 'discardDraft'; id: string }
+  | { command: 'selectRepository'; rootPath: string | null }
   | { command: 'openDiff'; filePath: string }
+  | { command: 'getHunks'; filePath: string }
+  | { command: 'lintMessages'; items: LintRequest[] }
+  | { command: 'getSuggestions'; filePaths: string[] }
   | { command: 'refresh' }
   | { command: 'stageFile'; filePath: string }
   | { command: 'unstageFile'; filePath: string }
+  | { command: 'stashFiles'; filePaths: string[] }
   | { command: 'ready' }
   | { command: 'getTemplates' }
   | { command: 'pushChanges' }
@@ -17,12 +34,25 @@ export type WebviewMessage =
 
 // Messages FROM extension TO webview
 export type ExtensionMessage =
-  | { type: 'changedFiles'; files: FileInfo[]; repoInfo: RepoInfo | null; templates?: CommitTemplate[]; settings?: Settings }
+  | { type: 'changedFiles'; files: FileInfo[]; repoInfo: RepoInfo | null; repositories?: RepositoryOption[]; templates?: CommitTemplate[]; settings?: Settings }
   | { type: 'commitResult'; result: BulkCommitResultInfo }
+  | { type: 'commitRetried'; commit: CommitResultInfo; result: BulkCommitResultInfo }
+  | { type: 'authors'; roster: string[]; coAuthors: string[]; author?: string }
+  | { type: 'relint' }
+  | { type: 'draft'; draft: BulkCommitDraft | null; merge?: boolean }
+  | { type: 'drafts'; drafts: DraftSummary[]; currentId?: string }
+  | { type: 'commitPlan'; plan: CommitPlanInfo }
+  | { type: 'commitRunStarted'; labels: string[]; repositories?: string[] }
+  | { type: 'commitTaskStarted'; index: number }
+  | { type: 'commitTaskCommitted'; index: number; hash: string }
+  | { type: 'commitTaskFailed'; index: number; error: string }
   | { type: 'error'; message: string }
   | { type: 'loading'; loading: boolean }
   | { type: 'templates'; templates: CommitTemplate[] }
-  | { type: 'applyTemplate'; template: string };
+  | { type: 'applyTemplate'; template: string }
+  | { type: 'hunks'; filePath: string; hunks: HunkInfo[] }
+  | { type: 'lintResults'; results: LintResultInfo[] }
+  | { type: 'suggestions'; suggestions: FileSuggestionsInfo[] };
 
 export interface FileInfo {
   path: string;
@@ -30,17 +60,153 @@ export interface FileInfo {
   status: 'modified' | 'added' | 'deleted' | 'renamed' | 'untracked' | 'conflicted';
   staged: boolean;
   uri: string;
+  /** Conventional Commit scope inferred from the path */
+  scope?: string;
+  /** Suggested `type(scope): ` start of the message */
+  suggestedPrefix?: string;
+  /** The file's repository, when the panel shows every repository */
+  repository?: RepoInfo;
 }
 
+/**
+ * The repository the panel shows; name, an empty root path and branch when it shows all of them
+ */
 export interface RepoInfo {
   name: string;
   branch: string;
   rootPath: string;
+  /** Ticket ID found in the branch name */
+  ticket?: string;
+}
+
+/**
+ * An entry of the repository selector
+ */
+export interface RepositoryOption {
+  name: string;
+  rootPath: string;
+  branch: string;
+  changes: number;
 }
 
-export interface CommitRequest {
+export interface CommitFileRequest {
   filePath: string;
+  hunks?: string[];
+}
+
+/**
+ * One commit of a bulk run: a named group of files, or a single ungrouped file
+ */
+export interface CommitGroupRequest {
+  name?: string;
+  message: CommitMessageParts;
+  files: CommitFileRequest[];
+  /** Overrides the options of the run for this commit */
+  options?: CommitOptionsInfo;
+}
+
+/**
+ * Flags of a commit; unset flags fall back to the run's options, then the settings
+ */
+export interface CommitOptionsInfo {
+  amend?: boolean;
+  signoff?: boolean;
+  signCommit?: boolean;
+  noVerify?: boolean;
+  all?: boolean;
+  allowEmpty?: boolean;
+}
+
+/**
+ * A commit message as edited in the panel; the extension assembles the full text
+ */
+export interface CommitMessageParts {
+  subject: string;
+  body?: string;
+  trailers?: Trailer[];
+}
+
+export interface Trailer {
+  key: string;
+  value: string;
+}
+
+/**
+ * The work in progress of the Bulk Commit panel, saved per repository and branch.
+ * Paths are absolute; keys of `commitOptions` are queue keys.
+ */
+export interface BulkCommitDraft {
+  selectedFiles: string[];
+  commitMessages: Record<string, string>;
+  commitBodies: Record<string, string>;
+  commitTrailers: Record<string, Trailer[]>;
+  hunkSelections: Record<string, string[]>;
+  commitGroups: CommitGroupDraft[];
+  commitOrder: string[];
+  commitOptions: Record<string, CommitOptionsInfo>;
+}
+
+export interface CommitGroupDraft {
+  id: string;
+  name: string;
+  message: string;
+  files: string[];
+  /** Hunks of other files split off into the group, by path */
+  hunks?: Record<string, string[]>;
+}
+
+export interface DraftSummary {
+  id: string;
+  repoName: string;
+  rootPath: string;
+  branch: string;
+  /** ISO timestamp of the last change */
+  updatedAt: string;
+  messageCount: number;
+}
+
+export interface HunkInfo {
+  id: string;
+  header: string;
+  lines: string[];
+  additions: number;
+  deletions: number;
+}
+
+/**
+ * A commit message to lint; the key is the webview's queue key for the file or group
+ */
+export interface LintRequest {
+  key: string;
+  message: CommitMessageParts;
+  /** A file of the commit; the commitlint config of its repository applies */
+  filePath?: string;
+}
+
+export interface LintResultInfo {
+  key: string;
+  violations: LintViolationInfo[];
+}
+
+export interface LintViolationInfo {
+  rule: string;
+  severity: 'error' | 'warning';
   message: string;
+  line?: number;
+}
+
+/**
+ * Suggested messages for a file: GitToys' own first, then those of registered providers
+ */
+export interface FileSuggestionsInfo {
+  filePath: string;
+  suggestions: MessageSuggestionInfo[];
+}
+
+export interface MessageSuggestionInfo {
+  message: string;
+  /** Provider the suggestion came from */
+  source: string;
 }
 
 export interface BulkCommitResultInfo {
@@ -48,6 +214,66 @@ export interface BulkCommitResultInfo {
   failed: number;
   total: number;
   errors: string[];
+  rolledBack: boolean;
+  cancelled: boolean;
+  commits: CommitResultInfo[];
+  /** Per-repository outcome of a run across several repositories */
+  repositories?: RepositoryResultInfo[];
+}
+
+export interface RepositoryResultInfo {
+  name: string;
+  rootPath: string;
+  successful: number;
+  failed: number;
+  rolledBack: boolean;
+}
+
+export interface CommitPlanInfo {
+  commits: CommitPlanEntryInfo[];
+  warnings: string[];
+  atomic: boolean;
+  pushAfterCommit: boolean;
+}
+
+export interface CommitPlanEntryInfo {
+  label: string;
+  message: string;
+  files: CommitPlanFileInfo[];
+  warnings: string[];
+  /** Labels of the commit options in effect, e.g. "Sign-off" */
+  options: string[];
+  /** Repository name, for runs across several repositories */
+  repository?: string;
+}
+
+export interface CommitPlanFileInfo {
+  relativePath: string;
+  additions: number;
+  deletions: number;
+  binary: boolean;
+  partial: boolean;
+}
+
+export interface CommitResultInfo {
+  index: number;
+  label: string;
+  message: string;
+  files: string[];
+  /** Absolute paths of the files, as the panel lists them */
+  filePaths: string[];
+  success: boolean;
+  hash?: string;
+  parent?: string;
+  author?: string;
+  /** ISO timestamp of the author date */
+  date?: string;
+  error?: string;
+  /** What git and its hooks printed when the commit failed */
+  output?: { stdout: string; stderr: string };
+  /** Repository name and root, for runs across several repositories */
+  repository?: string;
+  rootPath?: string;
 }
 
 export interface CommitTemplate {
@@ -59,4 +285,69 @@ export interface CommitTemplate {
 export interface Settings {
   pushAfterCommit: boolean;
   confirmBeforeCommit: boolean;
+  atomic: boolean;
+  prefillScope: boolean;
+  ticketPlacement: 'none' | 'prefix' | 'suffix' | 'trailer';
+  ticketTrailer: string;
+  /** `Key: value` trailers added to every commit */
+  defaultTrailers: string[];
+  commitOptions: CommitOptionsInfo;
+}
+
+// Branch Visualizer messages FROM webview TO extension
+export type GraphWebviewMessage =
+  | { command: 'ready' }
+  | { command: 'refresh' }
+  | { command: 'loadMore' }
+  | { command: 'selectCommit'; hash: string }
+  | { command: 'openCommit'; hash: string }
+  | { command: 'openFileDiff'; hash: string; filePath: string };
+
+// Branch Visualizer messages FROM extension TO webview
+export type GraphExtensionMessage =
+  | { type: 'graph'; rows: GraphRowInfo[]; hasMore: boolean; repoInfo: RepoInfo | null }
+  | { type: 'commitDetails'; details: CommitDetailsInfo }
+  | { type: 'loading'; loading: boolean }
+  | { type: 'error'; message: string };
+
+export interface GraphRefInfo {
+  name: string;
+  type: 'head' | 'remote' | 'tag';
+  current?: boolean;
+}
+
+/**
+ * A line of the graph within one row: `top` runs from the top edge to the commit,
+ * `bottom` from the commit to the bottom edge, `full` straight through the row
+ */
+export interface GraphSegment {
+  from: number;
+  to: number;
+  part: 'top' | 'bottom' | 'full';
+}
+
+export interface GraphRowInfo {
+  hash: string;
+  message: string;
+  author: string;
+  email?: string;
+  /** ISO timestamp of the commit date */
+  date?: string;
+  parents: string[];
+  refs: GraphRefInfo[];
+  lane: number;
+  segments: GraphSegment[];
+}
+
+export interface CommitDetailsInfo {
+  hash: string;
+  message: string;
+  author: string;
+  email?: string;
+  /** ISO timestamps */
+  authorDate?: string;
+  commitDate?: string;
+  parents: string[];
+  refs: GraphRefInfo[];
+  files: { path: string; relativePath: string; status: string }[];
 }
@@ -1,5 +1,6 @@
 import * as vscode from 'vscode';
 import { GitService } from '../git/gitService';
+import { CoAuthorSelection } from '../toys/bulk-commit/coAuthors';
 
 export class QuickActionsProvider implements vscode.TreeDataProvider<QuickActionItem> {
   private _onDidChangeTreeData: vscode.EventEmitter<QuickActionItem | undefined | null | void> = 
@@ -7,7 +8,7 @@ export class QuickActionsProvider implements vscode.TreeDataProvider<QuickAction
   readonly onDidChangeTreeData: vscode.Event<QuickActionItem | undefined | null | void> = 
     this._onDidChangeTreeData.event;
 
-  constructor(private gitService: GitService) {}
+  constructor(private gitService: GitService, private coAuthors: CoAuthorSelection) {}
 
   refresh(): void {
     this._onDidChangeTreeData.fire();
@@ -38,7 +39,22 @@ export class QuickActionsProvider implements vscode.TreeDataProvider<QuickAction
       ]);
     }
 
-    const items: QuickActionItem[] = [
+    const items: QuickActionItem[] = [];
+
+    // With several repositories, the actions below apply to the one shown here
+    const repositories = this.gitService.getRepositories();
+    if (repositories.length > 1) {
+      const picked = this.gitService.getSelectedRepositoryRoot() !== undefined;
+      items.push(new QuickActionItem(
+        repoInfo.name,
+        `⎇ ${repoInfo.branch}${picked ? '' : ' (active editor)'} · ${repositories.length} repositories`,
+        'gittoys.selectRepository',
+        'repo',
+        false
+      ));
+    }
+
+    items.push(
       new QuickActionItem(
         'Push',
         syncStatus && syncStatus.ahead > 0 
@@ -66,6 +82,22 @@ export class QuickActionsProvider implements vscode.TreeDataProvider<QuickAction
         'git-commit',
         changesCount.total === 0
       ),
+      new QuickActionItem(
+        'Co-authors',
+        this.coAuthors.coAuthors.length > 0
+          ? this.coAuthors.coAuthors.map(p => p.replace(/\s*<.*>$/, '')).join(', ')
+          : 'None',
+        'gittoys.pickCoAuthors',
+        'person-add',
+        false
+      ),
+      new QuickActionItem(
+        'Commit Author',
+        this.coAuthors.author || 'Me',
+        'gittoys.setCommitAuthor',
+        'person',
+        false
+      ),
       new QuickActionItem(
         'Undo Last Commit',
         'Soft reset to previous state',
@@ -73,7 +105,7 @@ export class QuickActionsProvider implements vscode.TreeDataProvider<QuickAction
         'discard',
         false
       ),
-    ];
+    );
 
     return Promise.resolve(items);
   }
@@ -0,0 +1,213 @@
+import * as vscode from 'vscode';
+import { GitService } from '../git/gitService';
+import { Repository } from '../types/git';
+import { formatAge } from '../utils/format';
+
+export type SyncAction = 'fetch' | 'pull' | 'push';
+
+/**
+ * Outcome of the last fetch, pull or push of all repositories, for one repository
+ */
+interface SyncReport {
+  action: SyncAction;
+  outcome: 'done' | 'skipped' | 'failed';
+  message: string;
+  date: Date;
+}
+
+const ACTIONS: Record<SyncAction, { label: string; progress: string; done: string }> = {
+  fetch: { label: 'Fetch All', progress: 'Fetching', done: 'Fetched' },
+  pull: { label: 'Pull All', progress: 'Pulling (fast-forward only)', done: 'Pulled' },
+  push: { label: 'Push All', progress: 'Pushing', done: 'Pushed' }
+};
+
+const OUTCOME_ICONS: Record<SyncReport['outcome'], string> = {
+  done: 'pass',
+  skipped: 'circle-slash',
+  failed: 'error'
+};
+
+/**
+ * Branch, upstream, ahead/behind, changes and last fetch of every repository in the workspace
+ */
+export class SyncDashboardProvider implements vscode.TreeDataProvider<SyncItem> {
+  private _onDidChangeTreeData: vscode.EventEmitter<SyncItem | undefined | null | void> =
+    new vscode.EventEmitter<SyncItem | undefined | null | void>();
+  readonly onDidChangeTreeData: vscode.Event<SyncItem | undefined | null | void> =
+    this._onDidChangeTreeData.event;
+
+  /** Last report per repository root */
+  private reports = new Map<string, SyncReport>();
+  private syncing = false;
+
+  constructor(private gitService: GitService) {}
+
+  refresh(): void {
+    this._onDidChangeTreeData.fire();
+  }
+
+  getTreeItem(element: SyncItem): vscode.TreeItem {
+    return element;
+  }
+
+  async getChildren(element?: SyncItem): Promise<SyncItem[]> {
+    if (element) {
+      return element.children;
+    }
+
+    const repositories = this.gitService.getRepositories();
+    if (repositories.length === 0) {
+      return [new SyncItem('No repository', 'Open a folder with a Git repository', 'warning')];
+    }
+    return Promise.all(repositories.map(repository => this.createRepositoryItem(repository)));
+  }
+
+  /**
+   * Run an action in every repository, one after the other, and report how each went
+   */
+  async syncAll(action: SyncAction): Promise<void> {
+    const repositories = this.gitService.getRepositories();
+    if (repositories.length === 0) {
+      vscode.window.showWarningMessage('GitToys: No repositories to sync');
+      return;
+    }
+    if (this.syncing) {
+      vscode.window.showInformationMessage('GitToys: Repositories are already being synced');
+      return;
+    }
+
+    this.syncing = true;
+    try {
+      const reports = await vscode.window.withProgress({
+        location: vscode.ProgressLocation.Notification,
+        title: `GitToys: ${ACTIONS[action].progress}`,
+        cancellable: true
+      }, async (progress, token) => {
+        const reports: { name: string; report: SyncReport }[] = [];
+        for (const repository of repositories) {
+          if (token.isCancellationRequested) {
+            break;
+          }
+          const name = this.gitService.getRepositoryInfo(repository)?.name || repository.rootUri.fsPath;
+          progress.report({ message: name, increment: 100 / repositories.length });
+
+          const report = await this.syncRepository(repository, action);
+          this.reports.set(repository.rootUri.fsPath, report);
+          reports.push({ name, report });
+          this.refresh();
+        }
+        return reports;
+      });
+
+      const done = reports.filter(r => r.report.outcome === 'done').length;
+      const failed = reports.filter(r => r.report.outcome === 'failed');
+      const summary = `GitToys: ${ACTIONS[action].done} ${done} of ${repositories.length} repositories` +
+        `${reports.length < repositories.length ? ' (cancelled)' : ''}`;
+      if (failed.length > 0) {
+        vscode.window.showErrorMessage(`${summary}; ${failed.length} failed - ${failed.map(f => `${f.name}: ${f.report.message}`).join('; ')}`);
+      } else {
+        vscode.window.showInformationMessage(summary);
+      }
+    } finally {
+      this.syncing = false;
+    }
+  }
+
+  private async syncRepository(repository: Repository, action: SyncAction): Promise<SyncReport> {
+    const date = new Date();
+    const upstream = this.gitService.getUpstream(repository);
+    const skip = (message: string): SyncReport => ({ action, outcome: 'skipped', message, date });
+    const fail = (message = 'Unknown error'): SyncReport => ({ action, outcome: 'failed', message, date });
+
+    switch (action) {
+      case 'fetch': {
+        const result = await this.gitService.fetch(repository);
+        if (!result.success) {
+          return fail(result.error);
+        }
+        const behind = this.gitService.getSyncStatus(repository)?.behind || 0;
+        return { action, outcome: 'done', message: behind > 0 ? `${behind} commit(s) to pull` : 'Up to date', date };
+      }
+      case 'pull': {
+        if (!upstream) {
+          return skip('No upstream branch');
+        }
+        const result = await this.gitService.pullFastForward(repository);
+        if (!result.success) {
+          return fail(result.error);
+        }
+        return { action, outcome: 'done', message: result.pulled ? `Fast-forwarded ${result.pulled} commit(s)` : 'Up to date', date };
+      }
+      case 'push': {
+        const ahead = this.gitService.getSyncStatus(repository)?.ahead || 0;
+        if (!upstream) {
+          return skip('No upstream branch');
+        }
+        if (ahead === 0) {
+          return skip('Nothing to push');
+        }
+        const result = await this.gitService.push(repository);
+        return result.success
+          ? { action, outcome: 'done', message: `Pushed ${ahead} commit(s)`, date }
+          : fail(result.error);
+      }
+    }
+  }
+
+  private async createRepositoryItem(repository: Repository): Promise<SyncItem> {
+    const repoInfo = this.gitService.getRepositoryInfo(repository);
+    const name = repoInfo?.name || repository.rootUri.fsPath;
+    const branch = repoInfo?.branch || 'Unknown';
+    const upstream = this.gitService.getUpstream(repository);
+    const sync = this.gitService.getSyncStatus(repository);
+    const changes = this.gitService.getChangesCount(repository).total;
+    const lastFetch = await this.gitService.getLastFetchTime(repository);
+    const report = this.reports.get(repository.rootUri.fsPath);
+
+    const aheadBehind = upstream ? `↑${sync?.ahead || 0} ↓${sync?.behind || 0}` : 'no upstream';
+    const children = [
+      new SyncItem('Branch', upstream ? `${branch} → ${upstream}` : `${branch} (no upstream)`, 'git-branch'),
+      new SyncItem('Ahead / Behind', aheadBehind, 'arrow-swap'),
+      new SyncItem('Changes', changes > 0 ? `${changes} file(s)` : 'Clean', 'diff'),
+      new SyncItem('Last Fetch', lastFetch ? formatAge(lastFetch) : 'Never', 'history')
+    ];
+    if (report) {
+      children.push(new SyncItem(
+        ACTIONS[report.action].label,
+        `${report.message} (${formatAge(report.date)})`,
+        OUTCOME_ICONS[report.outcome]
+      ));
+    }
+
+    const item = new SyncItem(
+      name,
+      `⎇ ${branch}  ${aheadBehind}${changes > 0 ? `  ● ${changes}` : ''}`,
+      report?.outcome === 'failed' ? 'warning' : 'repo',
+      children
+    );
+    // Keeps the item expanded across refreshes
+    item.id = repository.rootUri.fsPath;
+    item.tooltip = new vscode.MarkdownString([
+      `**${name}**`,
+      '',
+      repository.rootUri.fsPath,
+      '',
+      ...children.map(child => `- ${child.label}: ${child.description}`)
+    ].join('\n'));
+    return item;
+  }
+}
+
+export class SyncItem extends vscode.TreeItem {
+  constructor(
+    public readonly label: string,
+    public readonly description: string,
+    iconName: string,
+    public readonly children: SyncItem[] = []
+  ) {
+    super(label, children.length > 0 ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.None);
+
+    this.tooltip = this.description;
+    this.iconPath = new vscode.ThemeIcon(iconName);
+  }
+}
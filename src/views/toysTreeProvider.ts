@@ -13,24 +13,21 @@ export class ToysTreeProvider implements vscode.TreeDataProvider<ToyItem> {
     ),
     new ToyItem(
       'Stash Manager',
-      'Coming soon...',
-      undefined,
-      'archive',
-      true
+      'Create, search, preview and restore stashes',
+      'gittoys.openStashManager',
+      'archive'
     ),
     new ToyItem(
       'Branch Visualizer',
-      'Coming soon...',
-      undefined,
-      'git-branch',
-      true
+      'Commit graph of branches and tags, with search and details',
+      'gittoys.openBranchVisualizer',
+      'git-branch'
     ),
     new ToyItem(
       'Commit Templates',
-      'Coming soon...',
-      undefined,
-      'file-text',
-      true
+      'Message templates with placeholders like {file} and {branch}',
+      'gittoys.applyTemplate',
+      'file-text'
     ),
   ];
 
@@ -0,0 +1,535 @@
+/**
+ * GitToys Branch Visualizer - Webview UI
+ * Draws the commit graph of branches and tags, with search and commit details
+ */
+
+interface VsCodeApi {
+  postMessage(message: unknown): void;
+  getState(): unknown;
+  setState(state: unknown): void;
+}
+
+declare function acquireVsCodeApi(): VsCodeApi;
+
+interface RepoInfo {
+  name: string;
+  branch: string;
+  rootPath: string;
+}
+
+interface GraphRefInfo {
+  name: string;
+  type: 'head' | 'remote' | 'tag';
+  current?: boolean;
+}
+
+interface GraphSegment {
+  from: number;
+  to: number;
+  part: 'top' | 'bottom' | 'full';
+}
+
+interface GraphRowInfo {
+  hash: string;
+  message: string;
+  author: string;
+  email?: string;
+  date?: string;
+  parents: string[];
+  refs: GraphRefInfo[];
+  lane: number;
+  segments: GraphSegment[];
+}
+
+interface CommitDetailsInfo {
+  hash: string;
+  message: string;
+  author: string;
+  email?: string;
+  authorDate?: string;
+  commitDate?: string;
+  parents: string[];
+  refs: GraphRefInfo[];
+  files: { path: string; relativePath: string; status: string }[];
+}
+
+interface AppState {
+  rows: GraphRowInfo[];
+  hasMore: boolean;
+  repoInfo: RepoInfo | null;
+  details: CommitDetailsInfo | null;
+  selectedHash: string | null;
+  searchQuery: string;
+  /** Index in `getMatches()` of the match last jumped to */
+  matchIndex: number;
+  loading: boolean;
+  /** A page was requested and hasn't arrived yet */
+  loadingMore: boolean;
+  error: string | null;
+}
+
+/** Width of a lane and height of a row of the graph, in pixels */
+const LANE_WIDTH = 14;
+const ROW_HEIGHT = 24;
+/** Lanes cycle through this many colors, see `.lane-color-N` */
+const LANE_COLORS = 6;
+
+const STATUS_LETTERS: Record<string, string> = {
+  modified: 'M',
+  added: 'A',
+  deleted: 'D',
+  renamed: 'R',
+  untracked: 'U',
+  conflicted: '!'
+};
+
+class BranchVisualizerApp {
+  private vscode: VsCodeApi;
+  private state: AppState;
+  private appElement: HTMLElement;
+
+  constructor() {
+    this.vscode = acquireVsCodeApi();
+    this.state = {
+      rows: [],
+      hasMore: false,
+      repoInfo: null,
+      details: null,
+      selectedHash: null,
+      searchQuery: '',
+      matchIndex: -1,
+      loading: true,
+      loadingMore: false,
+      error: null
+    };
+    this.appElement = document.getElementById('app')!;
+
+    // Restore previous state if available
+    const previousState = this.vscode.getState() as Partial<AppState> | undefined;
+    if (previousState) {
+      this.state.searchQuery = previousState.searchQuery || '';
+      this.state.selectedHash = previousState.selectedHash || null;
+    }
+
+    this.setupMessageListener();
+    this.setupKeyboardShortcuts();
+    this.render();
+
+    // Signal we're ready
+    this.vscode.postMessage({ command: 'ready' });
+  }
+
+  private setupMessageListener(): void {
+    window.addEventListener('message', (event) => {
+      const message = event.data;
+      this.handleMessage(message);
+    });
+  }
+
+  private setupKeyboardShortcuts(): void {
+    document.addEventListener('keydown', (e) => {
+      // Ctrl/Cmd + F = Focus search
+      if ((e.ctrlKey || e.metaKey) && e.key === 'f') {
+        e.preventDefault();
+        (document.getElementById('search-input') as HTMLInputElement | null)?.focus();
+      }
+      // Escape = Clear search, then close the details
+      if (e.key === 'Escape') {
+        if (this.state.searchQuery) {
+          this.setSearchQuery('');
+          const input = document.getElementById('search-input') as HTMLInputElement | null;
+          if (input) {
+            input.value = '';
+          }
+        } else if (this.state.details) {
+          this.state.details = null;
+          this.state.selectedHash = null;
+          this.saveState();
+          this.render();
+        }
+      }
+    });
+  }
+
+  private handleMessage(message: { type: string; [key: string]: unknown }): void {
+    switch (message.type) {
+      case 'graph':
+        this.state.rows = message.rows as GraphRowInfo[];
+        this.state.hasMore = message.hasMore as boolean;
+        this.state.repoInfo = message.repoInfo as RepoInfo | null;
+        this.state.loadingMore = false;
+        this.state.error = null;
+        // The commit may be gone after a rebase or a switch to another repository
+        if (this.state.selectedHash && !this.state.rows.some(r => r.hash === this.state.selectedHash)) {
+          this.state.selectedHash = null;
+          this.state.details = null;
+        } else if (this.state.selectedHash && !this.state.details) {
+          this.vscode.postMessage({ command: 'selectCommit', hash: this.state.selectedHash });
+        }
+        this.render();
+        break;
+
+      case 'commitDetails':
+        this.state.details = message.details as CommitDetailsInfo;
+        this.render();
+        break;
+
+      case 'loading':
+        this.state.loading = message.loading as boolean;
+        if (!this.state.loading) {
+          this.state.loadingMore = false;
+        }
+        this.updateLoadMore();
+        break;
+
+      case 'error':
+        this.state.error = message.message as string;
+        this.render();
+        break;
+    }
+  }
+
+  private saveState(): void {
+    this.vscode.setState({
+      searchQuery: this.state.searchQuery,
+      selectedHash: this.state.selectedHash
+    });
+  }
+
+  /**
+   * Rows matching the search: in the message, the author's name or email, or the start of the hash
+   */
+  private getMatches(): GraphRowInfo[] {
+    const query = this.state.searchQuery.trim().toLowerCase();
+    if (!query) {
+      return [];
+    }
+    return this.state.rows.filter(row =>
+      row.message.toLowerCase().includes(query) ||
+      row.author.toLowerCase().includes(query) ||
+      (row.email || '').toLowerCase().includes(query) ||
+      row.hash.startsWith(query)
+    );
+  }
+
+  private setSearchQuery(query: string): void {
+    this.state.searchQuery = query;
+    this.state.matchIndex = -1;
+    this.saveState();
+    this.updateSearch();
+  }
+
+  /**
+   * Highlight matching rows and dim the rest, without redrawing the graph
+   */
+  private updateSearch(): void {
+    const matches = new Set(this.getMatches().map(r => r.hash));
+    const searching = !!this.state.searchQuery.trim();
+    document.querySelectorAll<HTMLElement>('.graph-row').forEach(rowEl => {
+      const isMatch = matches.has(rowEl.dataset.hash!);
+      rowEl.classList.toggle('match', searching && isMatch);
+      rowEl.classList.toggle('dimmed', searching && !isMatch);
+    });
+
+    const count = document.getElementById('match-count');
+    if (count) {
+      count.textContent = this.getMatchSummary(matches.size);
+    }
+  }
+
+  private getMatchSummary(matchCount: number): string {
+    if (!this.state.searchQuery.trim()) {
+      return '';
+    }
+    const loaded = `${this.state.rows.length} loaded commit${this.state.rows.length !== 1 ? 's' : ''}`;
+    if (matchCount === 0) {
+      return `No matches in the ${loaded}${this.state.hasMore ? ' - load more to search older ones' : ''}`;
+    }
+    const position = this.state.matchIndex >= 0 ? `${this.state.matchIndex + 1} of ` : '';
+    return `${position}${matchCount} in the ${loaded}`;
+  }
+
+  /**
+   * Select the next (or previous) match and scroll to it
+   */
+  private jumpToMatch(step: 1 | -1): void {
+    const matches = this.getMatches();
+    if (matches.length === 0) {
+      return;
+    }
+    this.state.matchIndex = this.state.matchIndex < 0
+      ? (step === 1 ? 0 : matches.length - 1)
+      : (this.state.matchIndex + step + matches.length) % matches.length;
+    this.selectCommit(matches[this.state.matchIndex].hash);
+  }
+
+  private selectCommit(hash: string): void {
+    this.state.selectedHash = hash;
+    this.saveState();
+    this.vscode.postMessage({ command: 'selectCommit', hash });
+
+    document.querySelectorAll<HTMLElement>('.graph-row').forEach(rowEl => {
+      rowEl.classList.toggle('selected', rowEl.dataset.hash === hash);
+    });
+    document.querySelector<HTMLElement>(`.graph-row[data-hash="${hash}"]`)?.scrollIntoView({ block: 'nearest' });
+    this.updateSearch();
+  }
+
+  private loadMore(): void {
+    if (!this.state.hasMore || this.state.loadingMore) {
+      return;
+    }
+    this.state.loadingMore = true;
+    this.vscode.postMessage({ command: 'loadMore' });
+    this.updateLoadMore();
+  }
+
+  private updateLoadMore(): void {
+    const button = document.getElementById('btn-load-more') as HTMLButtonElement | null;
+    if (button) {
+      button.disabled = this.state.loadingMore;
+      button.textContent = this.state.loadingMore ? 'Loading...' : 'Load more';
+    }
+  }
+
+  private render(): void {
+    // Keep the scroll position when the graph is redrawn with more commits, and the
+    // focus when jumping between search matches opens their details
+    const scrollTop = document.querySelector('.graph-list')?.scrollTop || 0;
+    const searchFocused = document.activeElement?.id === 'search-input';
+
+    if (this.state.loading && this.state.rows.length === 0 && !this.state.repoInfo) {
+      this.appElement.innerHTML = `
+        <div class="loading-container">
+          <div class="loading-spinner"></div>
+          <p>Loading history...</p>
+        </div>
+      `;
+      return;
+    }
+
+    if (!this.state.repoInfo) {
+      this.appElement.innerHTML = `
+        <div class="empty-state">
+          <div class="icon">📁</div>
+          <h2>No Git Repository Found</h2>
+          <p>Open a folder containing a Git repository to see its branches.</p>
+        </div>
+      `;
+      return;
+    }
+
+    const matchCount = this.getMatches().length;
+    this.appElement.innerHTML = `
+      <div class="header">
+        <h1><span class="icon">🌿</span> Branch Visualizer</h1>
+        <div class="repo-info">
+          <span>📁 ${this.escapeHtml(this.state.repoInfo.name)}</span>
+          <span class="branch">⎇ ${this.escapeHtml(this.state.repoInfo.branch)}</span>
+        </div>
+      </div>
+
+      <div class="toolbar">
+        <div class="search-box">
+          <span class="search-icon">🔍</span>
+          <input type="text" class="search-input" id="search-input" placeholder="Search by message, author or hash... (Ctrl+F)" value="${this.escapeHtml(this.state.searchQuery)}">
+        </div>
+        <button class="btn btn-icon" id="btn-prev-match" title="Previous match (Shift+Enter)">↑</button>
+        <button class="btn btn-icon" id="btn-next-match" title="Next match (Enter)">↓</button>
+        <span class="match-count" id="match-count">${this.escapeHtml(this.getMatchSummary(matchCount))}</span>
+        <button class="btn btn-icon" id="btn-refresh" title="Refresh">🔄</button>
+      </div>
+
+      ${this.state.error ? `<div class="error-state">${this.escapeHtml(this.state.error)}</div>` : ''}
+
+      <div class="graph-layout">
+        <div class="graph-list">
+          ${this.state.rows.length === 0
+            ? '<div class="empty-state"><p>No commits yet</p></div>'
+            : this.renderRows()}
+          ${this.state.hasMore ? `
+            <div class="load-more">
+              <button class="btn btn-secondary" id="btn-load-more" ${this.state.loadingMore ? 'disabled' : ''}>${this.state.loadingMore ? 'Loading...' : 'Load more'}</button>
+            </div>
+          ` : ''}
+        </div>
+        ${this.renderDetails()}
+      </div>
+    `;
+
+    const list = document.querySelector('.graph-list');
+    if (list) {
+      list.scrollTop = scrollTop;
+    }
+    if (searchFocused) {
+      const input = document.getElementById('search-input') as HTMLInputElement;
+      input.focus();
+      input.setSelectionRange(input.value.length, input.value.length);
+    }
+    this.setupEventListeners();
+    this.updateSearch();
+  }
+
+  private renderRows(): string {
+    const laneCount = Math.max(1, ...this.state.rows.map(row =>
+      Math.max(row.lane, ...row.segments.map(s => Math.max(s.from, s.to))) + 1
+    ));
+    const width = laneCount * LANE_WIDTH;
+
+    return this.state.rows.map(row => `
+      <div class="graph-row ${row.hash === this.state.selectedHash ? 'selected' : ''}" data-hash="${row.hash}">
+        <svg class="graph-cell" width="${width}" height="${ROW_HEIGHT}" viewBox="0 0 ${width} ${ROW_HEIGHT}">
+          ${this.renderGraphCell(row)}
+        </svg>
+        <span class="row-refs">${row.refs.map(ref => this.renderRef(ref)).join('')}</span>
+        <span class="row-message" title="${this.escapeHtml(row.message)}">${this.escapeHtml(row.message.split('\n')[0])}</span>
+        <span class="row-author" title="${this.escapeHtml(row.email || '')}">${this.escapeHtml(row.author)}</span>
+        <span class="row-date">${row.date ? this.escapeHtml(new Date(row.date).toLocaleDateString()) : ''}</span>
+        <span class="row-hash">${row.hash.substring(0, 7)}</span>
+      </div>
+    `).join('');
+  }
+
+  /**
+   * Lines through the row and the commit's dot; lines take the color of the lane they lead to
+   */
+  private renderGraphCell(row: GraphRowInfo): string {
+    const x = (lane: number) => lane * LANE_WIDTH + LANE_WIDTH / 2;
+    const middle = ROW_HEIGHT / 2;
+
+    const lines = row.segments.map(segment => {
+      const [y1, y2] = segment.part === 'top' ? [0, middle] : segment.part === 'bottom' ? [middle, ROW_HEIGHT] : [0, ROW_HEIGHT];
+      const x1 = x(segment.from);
+      const x2 = x(segment.to);
+      // Lines entering the commit keep the color of the lane they come from
+      const lane = segment.part === 'top' ? segment.from : segment.to;
+      const path = x1 === x2
+        ? `M ${x1} ${y1} L ${x2} ${y2}`
+        : `M ${x1} ${y1} C ${x1} ${(y1 + y2) / 2}, ${x2} ${(y1 + y2) / 2}, ${x2} ${y2}`;
+      return `<path class="graph-line lane-color-${lane % LANE_COLORS}" d="${path}"/>`;
+    });
+
+    const isMerge = row.parents.length > 1;
+    lines.push(`<circle class="graph-node lane-color-${row.lane % LANE_COLORS} ${isMerge ? 'merge' : ''}" cx="${x(row.lane)}" cy="${middle}" r="${isMerge ? 3 : 4}"/>`);
+    return lines.join('');
+  }
+
+  private renderRef(ref: GraphRefInfo): string {
+    const icon = ref.type === 'tag' ? '🏷' : ref.type === 'remote' ? '☁' : '⎇';
+    return `<span class="ref ref-${ref.type} ${ref.current ? 'current' : ''}" title="${this.escapeHtml(ref.name)}">${icon} ${this.escapeHtml(ref.name)}</span>`;
+  }
+
+  private renderDetails(): string {
+    const details = this.state.details;
+    if (!details || details.hash !== this.state.selectedHash) {
+      return '';
+    }
+
+    const [subject, ...bodyLines] = details.message.split('\n');
+    const body = bodyLines.join('\n').trim();
+    const date = details.authorDate || details.commitDate;
+    return `
+      <div class="commit-details">
+        <div class="details-header">
+          <h2>${this.escapeHtml(subject)}</h2>
+          <button class="btn btn-icon" id="btn-close-details" title="Close (Escape)">✕</button>
+        </div>
+        ${details.refs.length > 0 ? `<div class="details-refs">${details.refs.map(ref => this.renderRef(ref)).join('')}</div>` : ''}
+        ${body ? `<pre class="details-body">${this.escapeHtml(body)}</pre>` : ''}
+        <dl class="details-meta">
+          <dt>Commit</dt><dd class="details-hash">${details.hash}</dd>
+          <dt>Author</dt><dd>${this.escapeHtml(details.author)}${details.email ? ` &lt;${this.escapeHtml(details.email)}&gt;` : ''}</dd>
+          ${date ? `<dt>Date</dt><dd>${this.escapeHtml(new Date(date).toLocaleString())}</dd>` : ''}
+          <dt>Parents</dt>
+          <dd>${details.parents.length === 0
+            ? 'None (root commit)'
+            : details.parents.map(p => `<a href="#" class="details-parent" data-hash="${p}">${p.substring(0, 7)}</a>`).join(' ')}</dd>
+        </dl>
+        <div class="details-files-header">
+          <span>${details.files.length} file${details.files.length !== 1 ? 's' : ''} changed</span>
+          <button class="btn btn-secondary" id="btn-open-commit" ${details.files.length === 0 ? 'disabled' : ''}>Open All Changes</button>
+        </div>
+        <ul class="details-files">
+          ${details.files.map(file => `
+            <li class="details-file" data-path="${this.escapeHtml(file.path)}" title="Open the changes of ${this.escapeHtml(file.relativePath)}">
+              <span class="file-status status-${this.escapeHtml(file.status)}">${STATUS_LETTERS[file.status] || 'M'}</span>
+              <span class="details-file-path">${this.escapeHtml(file.relativePath)}</span>
+            </li>
+          `).join('')}
+        </ul>
+      </div>
+    `;
+  }
+
+  private setupEventListeners(): void {
+    document.getElementById('btn-refresh')?.addEventListener('click', () => {
+      this.vscode.postMessage({ command: 'refresh' });
+    });
+
+    // Search
+    const searchInput = document.getElementById('search-input') as HTMLInputElement | null;
+    searchInput?.addEventListener('input', () => this.setSearchQuery(searchInput.value));
+    searchInput?.addEventListener('keydown', (e) => {
+      if (e.key === 'Enter') {
+        e.preventDefault();
+        this.jumpToMatch(e.shiftKey ? -1 : 1);
+      }
+    });
+    document.getElementById('btn-next-match')?.addEventListener('click', () => this.jumpToMatch(1));
+    document.getElementById('btn-prev-match')?.addEventListener('click', () => this.jumpToMatch(-1));
+
+    // Commits
+    document.querySelectorAll<HTMLElement>('.graph-row').forEach(rowEl => {
+      rowEl.addEventListener('click', () => this.selectCommit(rowEl.dataset.hash!));
+    });
+
+    // Lazy paging: the next page loads when the end of the list comes into view
+    const list = document.querySelector('.graph-list');
+    list?.addEventListener('scroll', () => {
+      if (list.scrollTop + list.clientHeight >= list.scrollHeight - ROW_HEIGHT * 10) {
+        this.loadMore();
+      }
+    });
+    document.getElementById('btn-load-more')?.addEventListener('click', () => this.loadMore());
+
+    // Details
+    document.getElementById('btn-close-details')?.addEventListener('click', () => {
+      this.state.details = null;
+      this.state.selectedHash = null;
+      this.saveState();
+      this.render();
+    });
+    document.getElementById('btn-open-commit')?.addEventListener('click', () => {
+      if (this.state.details) {
+        this.vscode.postMessage({ command: 'openCommit', hash: this.state.details.hash });
+      }
+    });
+    document.querySelectorAll<HTMLElement>('.details-file').forEach(fileEl => {
+      fileEl.addEventListener('click', () => {
+        if (this.state.details) {
+          this.vscode.postMessage({ command: 'openFileDiff', hash: this.state.details.hash, filePath: fileEl.dataset.path });
+        }
+      });
+    });
+    document.querySelectorAll<HTMLElement>('.details-parent').forEach(link => {
+      link.addEventListener('click', (e) => {
+        e.preventDefault();
+        this.selectCommit(link.dataset.hash!);
+      });
+    });
+  }
+
+  private escapeHtml(text: string): string {
+    const div = document.createElement('div');
+    div.textContent = text;
+    // Also safe inside quoted attributes
+    return div.innerHTML.replace(/"/g, '&quot;');
+  }
+}
+
+// Initialize the app when the DOM is ready
+if (document.readyState === 'loading') {
+  document.addEventListener('DOMContentLoaded', () => new BranchVisualizerApp());
+} else {
+  new BranchVisualizerApp();
+}
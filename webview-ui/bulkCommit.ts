@@ -17,17 +17,128 @@ interface FileInfo {
   status: 'modified' | 'added' | 'deleted' | 'renamed' | 'untracked' | 'conflicted';
   staged: boolean;
   uri: string;
+  scope?: string;
+  suggestedPrefix?: string;
+  /** Set when every repository is shown */
+  repository?: RepoInfo;
 }
 
+/** An empty root path stands for all repositories */
 interface RepoInfo {
   name: string;
   branch: string;
   rootPath: string;
+  ticket?: string;
 }
 
-interface CommitRequest {
+interface RepositoryOption {
+  name: string;
+  rootPath: string;
+  branch: string;
+  changes: number;
+}
+
+interface CommitFileRequest {
+  filePath: string;
+  hunks?: string[];
+}
+
+interface CommitGroupRequest {
+  name?: string;
+  message: CommitMessageParts;
+  files: CommitFileRequest[];
+  options?: CommitOptionsInfo;
+}
+
+interface CommitOptionsInfo {
+  amend?: boolean;
+  signoff?: boolean;
+  signCommit?: boolean;
+  noVerify?: boolean;
+  all?: boolean;
+  allowEmpty?: boolean;
+}
+
+interface CommitMessageParts {
+  subject: string;
+  body?: string;
+  trailers?: Trailer[];
+}
+
+interface Trailer {
+  key: string;
+  value: string;
+}
+
+interface CommitGroup {
+  id: string;
+  name: string;
+  message: string;
+  files: string[];
+  /** Hunks of other files split off into the group, by path */
+  hunks?: Record<string, string[]>;
+}
+
+/**
+ * Work in progress saved by the extension per repository and branch
+ */
+interface BulkCommitDraft {
+  selectedFiles: string[];
+  commitMessages: Record<string, string>;
+  commitBodies: Record<string, string>;
+  commitTrailers: Record<string, Trailer[]>;
+  hunkSelections: Record<string, string[]>;
+  commitGroups: CommitGroup[];
+  commitOrder: string[];
+  commitOptions: Record<string, CommitOptionsInfo>;
+}
+
+interface DraftSummary {
+  id: string;
+  repoName: string;
+  rootPath: string;
+  branch: string;
+  updatedAt: string;
+  messageCount: number;
+}
+
+/**
+ * A commit in the queue; keys are `group:<id>` or `file:<path>`
+ */
+interface QueuedCommit {
+  key: string;
+  label: string;
+  request: CommitGroupRequest;
+}
+
+interface HunkInfo {
+  id: string;
+  header: string;
+  lines: string[];
+  additions: number;
+  deletions: number;
+}
+
+interface LintViolationInfo {
+  rule: string;
+  severity: 'error' | 'warning';
+  message: string;
+  line?: number;
+}
+
+interface LintResultInfo {
+  key: string;
+  violations: LintViolationInfo[];
+}
+
+interface FileSuggestionsInfo {
   filePath: string;
+  suggestions: MessageSuggestionInfo[];
+}
+
+interface MessageSuggestionInfo {
   message: string;
+  source: string;
 }
 
 interface CommitTemplate {
@@ -39,6 +150,12 @@ interface CommitTemplate {
 interface Settings {
   pushAfterCommit: boolean;
   confirmBeforeCommit: boolean;
+  atomic: boolean;
+  prefillScope: boolean;
+  ticketPlacement: 'none' | 'prefix' | 'suffix' | 'trailer';
+  ticketTrailer: string;
+  defaultTrailers: string[];
+  commitOptions: CommitOptionsInfo;
 }
 
 interface BulkCommitResultInfo {
@@ -46,15 +163,139 @@ interface BulkCommitResultInfo {
   failed: number;
   total: number;
   errors: string[];
+  rolledBack: boolean;
+  cancelled: boolean;
+  commits: CommitResultInfo[];
+  repositories?: RepositoryResultInfo[];
+}
+
+interface CommitPlanInfo {
+  commits: CommitPlanEntryInfo[];
+  warnings: string[];
+  atomic: boolean;
+  pushAfterCommit: boolean;
+}
+
+interface CommitPlanEntryInfo {
+  label: string;
+  message: string;
+  files: CommitPlanFileInfo[];
+  warnings: string[];
+  options: string[];
+  repository?: string;
+}
+
+interface CommitPlanFileInfo {
+  relativePath: string;
+  additions: number;
+  deletions: number;
+  binary: boolean;
+  partial: boolean;
+}
+
+interface CommitResultInfo {
+  index: number;
+  label: string;
+  message: string;
+  files: string[];
+  filePaths: string[];
+  success: boolean;
+  hash?: string;
+  parent?: string;
+  author?: string;
+  date?: string;
+  error?: string;
+  output?: { stdout: string; stderr: string };
+  repository?: string;
+  rootPath?: string;
+}
+
+interface RepositoryResultInfo {
+  name: string;
+  rootPath: string;
+  successful: number;
+  failed: number;
+  rolledBack: boolean;
+}
+
+interface CommitRunEntry {
+  label: string;
+  repository?: string;
+  status: 'pending' | 'running' | 'committed' | 'failed';
+  hash?: string;
+  error?: string;
+  details?: CommitResultInfo;
+}
+
+interface CommitRun {
+  entries: CommitRunEntry[];
+  running: boolean;
+  cancelling: boolean;
 }
 
+const DEFAULT_SETTINGS: Settings = {
+  pushAfterCommit: false,
+  confirmBeforeCommit: true,
+  atomic: false,
+  prefillScope: false,
+  ticketPlacement: 'none',
+  ticketTrailer: 'Refs',
+  defaultTrailers: [],
+  commitOptions: {}
+};
+
+const COMMIT_OPTIONS: { key: keyof CommitOptionsInfo; label: string; title: string }[] = [
+  { key: 'signoff', label: 'Sign-off', title: 'Add a Signed-off-by trailer (--signoff)' },
+  { key: 'signCommit', label: 'GPG sign', title: 'Sign the commit (--gpg-sign)' },
+  { key: 'noVerify', label: 'No verify', title: 'Skip the pre-commit and commit-msg hooks (--no-verify)' },
+  { key: 'amend', label: 'Amend', title: 'Amend the previous commit; from the run, only the first commit amends HEAD (--amend)' },
+  { key: 'all', label: 'All tracked', title: 'Also commit every other change to tracked files (--all)' },
+  { key: 'allowEmpty', label: 'Allow empty', title: 'Create the commit even if it has no changes (--allow-empty)' }
+];
+
+/** Trailer keys offered while typing */
+const TRAILER_KEYS = ['Co-authored-by', 'Signed-off-by', 'Reviewed-by', 'Refs', 'Fixes', 'Closes'];
+
+/** Template placeholders that are expanded per file */
+const TEMPLATE_VARIABLES = ['file', 'basename', 'dir', 'scope', 'status', 'branch', 'ticket', 'date'];
+
+/** Any `{name}` left in a message is a tab stop */
+const PLACEHOLDER_PATTERN = /\{[a-z]+\}/;
+
 type FilterType = 'all' | 'modified' | 'added' | 'deleted' | 'staged' | 'unstaged';
 
 interface AppState {
   files: FileInfo[];
   repoInfo: RepoInfo | null;
+  repositories: RepositoryOption[];
   selectedFiles: Set<string>;
   commitMessages: Map<string, string>;
+  commitBodies: Map<string, string>;
+  commitTrailers: Map<string, Trailer[]>;
+  expandedDetails: Set<string>;
+  fileHunks: Map<string, HunkInfo[]>;
+  hunkSelections: Map<string, string[]>;
+  expandedHunks: Set<string>;
+  commitGroups: CommitGroup[];
+  commitOrder: string[];
+  lintResults: Map<string, LintViolationInfo[]>;
+  suggestions: Map<string, MessageSuggestionInfo[]>;
+  expandedSuggestions: Set<string>;
+  atomic: boolean | undefined;
+  runOptions: CommitOptionsInfo;
+  commitOptions: Map<string, CommitOptionsInfo>;
+  expandedOptions: Set<string>;
+  expandedFailures: Set<number>;
+  /** People who can be picked as co-author or author, as `Name <email>` */
+  roster: string[];
+  coAuthors: string[];
+  author: string | undefined;
+  drafts: DraftSummary[];
+  currentDraftId: string | undefined;
+  showDrafts: boolean;
+  lastResult: BulkCommitResultInfo | null;
+  commitRun: CommitRun | null;
+  commitPlan: CommitPlanInfo | null;
   loading: boolean;
   error: string | null;
   templates: CommitTemplate[];
@@ -68,18 +309,46 @@ class BulkCommitApp {
   private vscode: VsCodeApi;
   private state: AppState;
   private appElement: HTMLElement;
+  private lintTimers = new Map<string, number>();
+  private draftTimer: number | undefined;
 
   constructor() {
     this.vscode = acquireVsCodeApi();
     this.state = {
       files: [],
       repoInfo: null,
+      repositories: [],
       selectedFiles: new Set(),
       commitMessages: new Map(),
+      commitBodies: new Map(),
+      commitTrailers: new Map(),
+      expandedDetails: new Set(),
+      fileHunks: new Map(),
+      hunkSelections: new Map(),
+      expandedHunks: new Set(),
+      commitGroups: [],
+      commitOrder: [],
+      lintResults: new Map(),
+      suggestions: new Map(),
+      expandedSuggestions: new Set(),
+      atomic: undefined,
+      runOptions: {},
+      commitOptions: new Map(),
+      expandedOptions: new Set(),
+      expandedFailures: new Set(),
+      roster: [],
+      coAuthors: [],
+      author: undefined,
+      drafts: [],
+      currentDraftId: undefined,
+      showDrafts: false,
+      lastResult: null,
+      commitRun: null,
+      commitPlan: null,
       loading: true,
       error: null,
       templates: [],
-      settings: { pushAfterCommit: false, confirmBeforeCommit: true },
+      settings: DEFAULT_SETTINGS,
       filter: 'all',
       searchQuery: '',
       groupByFolder: false
@@ -91,6 +360,14 @@ class BulkCommitApp {
     if (previousState) {
       this.state.selectedFiles = new Set(previousState.selectedFiles || []);
       this.state.commitMessages = new Map(Object.entries(previousState.commitMessages || {}));
+      this.state.commitBodies = new Map(Object.entries(previousState.commitBodies || {}));
+      this.state.commitTrailers = new Map(Object.entries(previousState.commitTrailers || {}));
+      this.state.hunkSelections = new Map(Object.entries(previousState.hunkSelections || {}));
+      this.state.commitGroups = previousState.commitGroups || [];
+      this.state.commitOrder = previousState.commitOrder || [];
+      this.state.atomic = previousState.atomic;
+      this.state.runOptions = previousState.runOptions || {};
+      this.state.commitOptions = new Map(Object.entries(previousState.commitOptions || {}));
       this.state.filter = previousState.filter || 'all';
       this.state.groupByFolder = previousState.groupByFolder || false;
     }
@@ -122,7 +399,11 @@ class BulkCommitApp {
         e.preventDefault();
         this.selectAll();
       }
-      // Escape = Clear search
+      // Escape = Close the commit plan, or clear search
+      if (e.key === 'Escape' && this.state.commitPlan) {
+        this.closeCommitPlan(false);
+        return;
+      }
       if (e.key === 'Escape') {
         this.state.searchQuery = '';
         this.render();
@@ -151,8 +432,9 @@ class BulkCommitApp {
       case 'changedFiles':
         this.state.files = message.files as FileInfo[];
         this.state.repoInfo = message.repoInfo as RepoInfo | null;
+        this.state.repositories = (message.repositories as RepositoryOption[]) || [];
         this.state.templates = (message.templates as CommitTemplate[]) || [];
-        this.state.settings = (message.settings as Settings) || { pushAfterCommit: false, confirmBeforeCommit: true };
+        this.state.settings = { ...DEFAULT_SETTINGS, ...(message.settings as Settings | undefined) };
         this.state.loading = false;
         this.state.error = null;
         
@@ -163,38 +445,123 @@ class BulkCommitApp {
           }
         });
         
-        // Clean up messages for files that no longer exist
+        // Messages of files that are missing from the list are kept: the file may come back
+        // (e.g. after a checkout), and stale drafts can be discarded from the drafts list
         const filePaths = new Set(this.state.files.map(f => f.path));
-        this.state.selectedFiles.forEach(path => {
-          if (!filePaths.has(path)) {
-            this.state.selectedFiles.delete(path);
-          }
-        });
-        this.state.commitMessages.forEach((_, path) => {
-          if (!filePaths.has(path)) {
-            this.state.commitMessages.delete(path);
+
+        if (this.state.settings.prefillScope) {
+          this.state.files.forEach(file => {
+            if (file.suggestedPrefix && !this.state.commitMessages.get(file.path)) {
+              this.state.commitMessages.set(file.path, file.suggestedPrefix);
+            }
+          });
+        }
+
+        // Diffs may have changed - reload hunks for open pickers only
+        this.state.fileHunks.clear();
+        this.state.expandedHunks.forEach(path => {
+          if (filePaths.has(path)) {
+            this.vscode.postMessage({ command: 'getHunks', filePath: path });
+          } else {
+            this.state.expandedHunks.delete(path);
           }
         });
         
         this.saveState();
         this.render();
+        this.lintAll();
+        this.requestSuggestions();
         break;
 
       case 'commitResult':
         const result = message.result as BulkCommitResultInfo;
-        if (result.successful > 0) {
-          this.state.commitMessages.clear();
-          this.state.selectedFiles.clear();
-        }
+        this.state.lastResult = result;
+        this.state.expandedFailures.clear();
+        this.applyResultToCommitRun(result);
+        this.clearCommitted(result.commits);
         this.saveState();
+        this.render();
+        break;
+
+      case 'authors':
+        this.state.roster = message.roster as string[];
+        this.state.coAuthors = message.coAuthors as string[];
+        this.state.author = message.author as string | undefined;
+        this.render();
+        break;
+
+      case 'relint':
+        this.lintAll();
+        break;
+
+      case 'draft':
+        // A pending save belongs to the branch that is being switched away from
+        this.flushDraft();
+        this.applyDraft(message.draft as BulkCommitDraft | null, message.merge === true);
+        break;
+
+      case 'drafts':
+        this.state.drafts = message.drafts as DraftSummary[];
+        this.state.currentDraftId = message.currentId as string | undefined;
+        this.render();
+        break;
+
+      case 'commitRetried':
+        const retried = message.commit as CommitResultInfo;
+        this.state.lastResult = message.result as BulkCommitResultInfo;
+        this.state.expandedFailures.delete(retried.index);
+        this.updateCommitRunEntry(retried.index, {
+          label: retried.label,
+          status: retried.success ? 'committed' : 'failed',
+          hash: retried.hash,
+          error: retried.error,
+          details: retried
+        });
+        if (retried.success) {
+          this.clearCommitted([retried]);
+          this.saveState();
+          this.render();
+        }
         break;
 
       case 'error':
+        // A run that ends in an error never sends a commitResult
+        if (this.state.commitRun) {
+          this.state.commitRun.running = false;
+        }
         this.state.error = message.message as string;
         this.state.loading = false;
         this.render();
         break;
 
+      case 'commitPlan':
+        this.state.commitPlan = message.plan as CommitPlanInfo;
+        this.render();
+        document.getElementById('btn-confirm-plan')?.focus();
+        break;
+
+      case 'commitRunStarted':
+        const repositories = message.repositories as string[] | undefined;
+        this.state.commitRun = {
+          entries: (message.labels as string[]).map((label, i) => ({ label, repository: repositories?.[i], status: 'pending' })),
+          running: true,
+          cancelling: false
+        };
+        this.render();
+        break;
+
+      case 'commitTaskStarted':
+        this.updateCommitRunEntry(message.index as number, { status: 'running' });
+        break;
+
+      case 'commitTaskCommitted':
+        this.updateCommitRunEntry(message.index as number, { status: 'committed', hash: message.hash as string });
+        break;
+
+      case 'commitTaskFailed':
+        this.updateCommitRunEntry(message.index as number, { status: 'failed', error: message.error as string });
+        break;
+
       case 'loading':
         this.state.loading = message.loading as boolean;
         this.render();
@@ -204,29 +571,835 @@ class BulkCommitApp {
         const template = message.template as string;
         this.applyTemplateToSelected(template);
         break;
+
+      case 'hunks':
+        this.handleHunks(message.filePath as string, message.hunks as HunkInfo[]);
+        break;
+
+      case 'lintResults':
+        this.handleLintResults(message.results as LintResultInfo[]);
+        break;
+
+      case 'suggestions':
+        this.handleSuggestions(message.suggestions as FileSuggestionsInfo[]);
+        break;
+    }
+  }
+
+  /**
+   * Ask the extension to lint a message once typing pauses; `filePath` is a file of the
+   * commit, whose repository's rules apply
+   */
+  private requestLint(key: string, message: CommitMessageParts, filePath?: string): void {
+    window.clearTimeout(this.lintTimers.get(key));
+    this.lintTimers.set(key, window.setTimeout(() => {
+      this.lintTimers.delete(key);
+      this.vscode.postMessage({ command: 'lintMessages', items: [{ key, message, filePath }] });
+    }, 250));
+  }
+
+  private lintAll(): void {
+    const items = [
+      ...Array.from(this.state.commitMessages.keys(), path => ({ key: `file:${path}`, message: this.getMessageParts(path), filePath: path })),
+      ...this.state.commitGroups.map(group => ({
+        key: `group:${group.id}`,
+        message: this.splitMessage(group.message),
+        filePath: group.files[0]
+      }))
+    ].filter(item => item.message.subject);
+    this.state.lintResults.clear();
+    if (items.length > 0) {
+      this.vscode.postMessage({ command: 'lintMessages', items });
     }
   }
 
+  private handleLintResults(results: LintResultInfo[]): void {
+    results.forEach(result => {
+      this.state.lintResults.set(result.key, result.violations);
+
+      // Patch the affected input in place so typing isn't interrupted
+      const list = document.querySelector(`.lint-violations[data-lint-key="${CSS.escape(result.key)}"]`);
+      if (list) {
+        list.outerHTML = this.renderLintViolations(result.key);
+      }
+      const input = document.querySelector(`.commit-input[data-lint-key="${CSS.escape(result.key)}"]`);
+      input?.classList.toggle('lint-error', this.hasLintErrors(result.key));
+    });
+    this.updateCommitButton();
+  }
+
+  /**
+   * The subject, body and trailers of a file's message, as sent to the extension
+   */
+  private getMessageParts(path: string): CommitMessageParts {
+    return {
+      subject: (this.state.commitMessages.get(path) || '').trim(),
+      body: this.state.commitBodies.get(path),
+      trailers: (this.state.commitTrailers.get(path) || []).filter(t => t.key.trim() || t.value.trim())
+    };
+  }
+
+  /**
+   * Split a free-form message into its subject, body and a closing block of `Key: value` trailers
+   */
+  private splitMessage(message: string): CommitMessageParts {
+    const [subject, ...rest] = message.trim().split('\n');
+    const paragraphs = rest.join('\n').trim().split(/\n\s*\n/);
+    const last = paragraphs[paragraphs.length - 1].split('\n');
+    const trailers = last.every(line => /^[A-Za-z0-9][A-Za-z0-9-]*: \S/.test(line))
+      ? last.map(line => ({ key: line.slice(0, line.indexOf(':')), value: line.slice(line.indexOf(':') + 1).trim() }))
+      : [];
+    const body = (trailers.length > 0 ? paragraphs.slice(0, -1) : paragraphs).join('\n\n');
+    return { subject: subject.trim(), body: body || undefined, trailers };
+  }
+
+  private lintFileMessage(path: string): void {
+    this.requestLint(`file:${path}`, this.getMessageParts(path), path);
+  }
+
+  private hasLintErrors(key: string): boolean {
+    return (this.state.lintResults.get(key) || []).some(v => v.severity === 'error');
+  }
+
+  private renderLintViolations(key: string): string {
+    const violations = this.state.lintResults.get(key) || [];
+    return `
+      <ul class="lint-violations" data-lint-key="${this.escapeHtml(key)}">
+        ${violations.map(v => `
+          <li class="lint-violation ${v.severity}" title="${this.escapeHtml(v.rule)}">
+            <span class="lint-icon">${v.severity === 'error' ? '✕' : '⚠'}</span>
+            ${v.line && v.line > 1 ? `<span class="lint-line">line ${v.line}</span>` : ''}
+            ${this.escapeHtml(v.message)}
+          </li>
+        `).join('')}
+      </ul>
+    `;
+  }
+
+  /**
+   * A message counts as empty until it has more than the suggested `type(scope): `
+   */
+  private isMessageEmpty(path: string): boolean {
+    const message = (this.state.commitMessages.get(path) || '').trim();
+    const prefix = this.state.files.find(f => f.path === path)?.suggestedPrefix?.trim();
+    return !message || message === prefix;
+  }
+
+  /**
+   * Ask the extension for suggested messages for every file without a message
+   */
+  private requestSuggestions(): void {
+    this.state.suggestions.clear();
+    this.state.expandedSuggestions.clear();
+    const filePaths = this.state.files.map(f => f.path).filter(path => this.isMessageEmpty(path));
+    if (filePaths.length > 0) {
+      this.vscode.postMessage({ command: 'getSuggestions', filePaths });
+    }
+  }
+
+  private handleSuggestions(suggestions: FileSuggestionsInfo[]): void {
+    suggestions.forEach(s => {
+      if (s.suggestions.length === 0) {
+        return;
+      }
+      this.state.suggestions.set(s.filePath, s.suggestions);
+
+      // Show the first suggestion as ghost text without re-rendering
+      const input = document.querySelector(`.commit-input[data-path="${CSS.escape(s.filePath)}"]`) as HTMLTextAreaElement | null;
+      if (input) {
+        input.placeholder = s.suggestions[0].message.split('\n')[0];
+        input.classList.add('has-suggestion');
+      }
+      const slotSelector = `.suggestion-toggle-slot[data-path="${CSS.escape(s.filePath)}"]`;
+      const slot = document.querySelector(slotSelector);
+      if (slot) {
+        slot.outerHTML = this.renderSuggestionToggle(s.filePath);
+        this.setupSuggestionListeners(document.querySelector(slotSelector)!);
+      }
+    });
+    this.updateCommitButton();
+  }
+
+  /**
+   * Button that lists all suggestions when providers offered more than one
+   */
+  private renderSuggestionToggle(path: string): string {
+    const count = this.state.suggestions.get(path)?.length || 0;
+    return `
+      <span class="suggestion-toggle-slot" data-path="${this.escapeHtml(path)}">
+        ${count > 1 ? `
+          <button class="suggestion-toggle" data-path="${this.escapeHtml(path)}" title="Choose a suggested message">
+            💡 ${count} suggestions
+          </button>
+        ` : ''}
+      </span>
+    `;
+  }
+
+  private renderSuggestionList(path: string): string {
+    const suggestions = this.state.suggestions.get(path) || [];
+    return `
+      <ul class="suggestion-list">
+        ${suggestions.map((s, index) => `
+          <li class="suggestion-item" data-path="${this.escapeHtml(path)}" data-index="${index}" tabindex="0">
+            <span class="suggestion-message">${this.escapeHtml(s.message)}</span>
+            <span class="suggestion-source">${this.escapeHtml(s.source)}</span>
+          </li>
+        `).join('')}
+      </ul>
+    `;
+  }
+
+  private setupSuggestionListeners(root: ParentNode = document): void {
+    root.querySelectorAll('.suggestion-toggle').forEach(btn => {
+      btn.addEventListener('click', (e) => {
+        const path = (e.currentTarget as HTMLElement).dataset.path!;
+        if (this.state.expandedSuggestions.has(path)) {
+          this.state.expandedSuggestions.delete(path);
+        } else {
+          this.state.expandedSuggestions.add(path);
+        }
+        this.render();
+      });
+    });
+
+    root.querySelectorAll('.suggestion-item').forEach(item => {
+      const choose = (e: Event) => {
+        const target = e.currentTarget as HTMLElement;
+        const path = target.dataset.path!;
+        this.acceptSuggestion(path, Number(target.dataset.index));
+        this.state.expandedSuggestions.delete(path);
+        this.saveState();
+        this.render();
+        (document.querySelector(`.commit-input[data-path="${CSS.escape(path)}"]`) as HTMLElement | null)?.focus();
+      };
+      item.addEventListener('click', choose);
+      item.addEventListener('keydown', (e) => {
+        if ((e as KeyboardEvent).key === 'Enter') {
+          choose(e);
+        }
+      });
+    });
+  }
+
+  /**
+   * Stash the selected files shown by the current filter; the file list refreshes once they're stashed
+   */
+  private stashSelected(): void {
+    const visible = new Set(this.getFilteredFiles().map(f => f.path));
+    const filePaths = Array.from(this.state.selectedFiles).filter(path => visible.has(path));
+    if (filePaths.length > 0) {
+      this.vscode.postMessage({ command: 'stashFiles', filePaths });
+    }
+  }
+
+  /**
+   * Paths of the selected ungrouped files whose empty message can be filled with a suggestion
+   */
+  private getFillableFiles(): string[] {
+    return Array.from(this.state.selectedFiles).filter(path =>
+      this.state.suggestions.has(path) && !this.getCommitGroup(path) && this.isMessageEmpty(path)
+    );
+  }
+
+  /**
+   * Use a suggestion as the file's subject; a multi-line suggestion also fills an empty body and adds its trailers
+   */
+  private acceptSuggestion(path: string, index = 0): void {
+    const suggestion = this.state.suggestions.get(path)?.[index];
+    if (suggestion) {
+      const parts = this.splitMessage(suggestion.message);
+      this.state.commitMessages.set(path, parts.subject);
+      if (parts.body && !this.state.commitBodies.get(path)?.trim()) {
+        this.state.commitBodies.set(path, parts.body);
+      }
+      if (parts.trailers?.length) {
+        this.state.commitTrailers.set(path, [...(this.state.commitTrailers.get(path) || []), ...parts.trailers]);
+      }
+      this.lintFileMessage(path);
+    }
+  }
+
+  private fillEmptyMessages(): void {
+    this.getFillableFiles().forEach(path => this.acceptSuggestion(path));
+    this.saveState();
+    this.render();
+  }
+
+  private handleHunks(path: string, hunks: HunkInfo[]): void {
+    this.state.fileHunks.set(path, hunks);
+
+    // Drop selections for hunks that no longer exist in the diff
+    const ids = new Set(hunks.map(h => h.id));
+    this.state.commitGroups.forEach(group => {
+      const split = group.hunks?.[path];
+      if (split) {
+        this.setGroupHunks(group, path, split.filter(id => ids.has(id)));
+      }
+    });
+    const selection = this.state.hunkSelections.get(path);
+    if (selection) {
+      const remaining = selection.filter(id => ids.has(id));
+      if (remaining.length === hunks.length) {
+        this.state.hunkSelections.delete(path);
+      } else {
+        this.state.hunkSelections.set(path, remaining);
+      }
+      this.saveState();
+    }
+
+    this.render();
+  }
+
+  private toggleHunkPicker(path: string): void {
+    if (this.state.expandedHunks.has(path)) {
+      this.state.expandedHunks.delete(path);
+    } else {
+      this.state.expandedHunks.add(path);
+      if (!this.state.fileHunks.has(path)) {
+        this.vscode.postMessage({ command: 'getHunks', filePath: path });
+      }
+    }
+    this.render();
+  }
+
+  private toggleHunk(path: string, hunkId: string, checked: boolean): void {
+    const hunks = this.state.fileHunks.get(path) || [];
+    const selection = new Set(this.state.hunkSelections.get(path) || hunks.map(h => h.id));
+    if (checked) {
+      selection.add(hunkId);
+    } else {
+      selection.delete(hunkId);
+    }
+
+    // Every hunk selected is the same as committing the whole file
+    if (selection.size === hunks.length) {
+      this.state.hunkSelections.delete(path);
+    } else {
+      this.state.hunkSelections.set(path, hunks.map(h => h.id).filter(id => selection.has(id)));
+    }
+    this.saveState();
+    this.render();
+  }
+
+  /**
+   * Commit a hunk with another group instead of the file's own commit, or take it back
+   * (`groupId` empty). The hunk leaves the file's own selection while it is split off.
+   */
+  private assignHunk(path: string, hunkId: string, groupId: string): void {
+    const hunks = this.state.fileHunks.get(path) || [];
+    this.state.commitGroups.forEach(group => {
+      this.setGroupHunks(group, path, (group.hunks?.[path] || []).filter(id => id !== hunkId));
+    });
+    const target = this.state.commitGroups.find(g => g.id === groupId);
+    if (target) {
+      this.setGroupHunks(target, path, [...(target.hunks?.[path] || []), hunkId]);
+    }
+
+    const selection = new Set(this.state.hunkSelections.get(path) || hunks.map(h => h.id));
+    if (target) {
+      selection.delete(hunkId);
+    } else {
+      selection.add(hunkId);
+    }
+    if (selection.size === hunks.length) {
+      this.state.hunkSelections.delete(path);
+    } else {
+      this.state.hunkSelections.set(path, hunks.map(h => h.id).filter(id => selection.has(id)));
+    }
+    this.saveState();
+    this.render();
+  }
+
+  private setGroupHunks(group: CommitGroup, path: string, ids: string[]): void {
+    const hunks = { ...group.hunks };
+    if (ids.length > 0) {
+      hunks[path] = ids;
+    } else {
+      delete hunks[path];
+    }
+    group.hunks = hunks;
+  }
+
+  /**
+   * Take the hunks a group split off from a file back into the file's own commit
+   */
+  private unsplitFile(group: CommitGroup, path: string): void {
+    const ids = group.hunks?.[path] || [];
+    this.setGroupHunks(group, path, []);
+    const selection = this.state.hunkSelections.get(path);
+    if (selection) {
+      const restored = [...selection, ...ids];
+      const hunks = this.state.fileHunks.get(path);
+      if (hunks && restored.length >= hunks.length) {
+        this.state.hunkSelections.delete(path);
+      } else {
+        this.state.hunkSelections.set(path, restored);
+      }
+    }
+  }
+
+  /**
+   * The group a hunk of a file is split off into
+   */
+  private getHunkGroup(path: string, hunkId: string): CommitGroup | undefined {
+    return this.state.commitGroups.find(g => g.hunks?.[path]?.includes(hunkId));
+  }
+
+  /**
+   * Files with hunks split off into a group, that currently have changes
+   */
+  private getSplitFiles(group: CommitGroup): string[] {
+    return Object.keys(group.hunks || {}).filter(path => this.state.files.some(f => f.path === path));
+  }
+
+  /**
+   * A file can be committed unless its hunk picker has every hunk deselected
+   */
+  private hasChangesToCommit(path: string): boolean {
+    const selection = this.state.hunkSelections.get(path);
+    return !selection || selection.length > 0;
+  }
+
+  private toFileRequest(path: string): CommitFileRequest {
+    const hunks = this.state.hunkSelections.get(path);
+    return hunks ? { filePath: path, hunks } : { filePath: path };
+  }
+
+  /**
+   * Files of a group that currently have changes
+   */
+  private getGroupFiles(group: CommitGroup): string[] {
+    return group.files.filter(path => this.state.files.some(f => f.path === path));
+  }
+
+  private getCommitGroup(path: string): CommitGroup | undefined {
+    return this.state.commitGroups.find(g => g.files.includes(path));
+  }
+
+  /**
+   * Create a commit group, moving the given files out of any group they were in
+   */
+  private createCommitGroup(paths: string[]): void {
+    paths.forEach(path => this.removeFromCommitGroup(path));
+    let index = this.state.commitGroups.length + 1;
+    while (this.state.commitGroups.some(g => g.name === `Group ${index}`)) {
+      index++;
+    }
+    this.state.commitGroups.push({
+      id: `group-${Date.now()}-${index}`,
+      name: `Group ${index}`,
+      message: '',
+      files: paths
+    });
+    this.saveState();
+    this.render();
+  }
+
+  private addToCommitGroup(groupId: string, path: string): void {
+    const group = this.state.commitGroups.find(g => g.id === groupId);
+    if (!group || group.files.includes(path)) {
+      return;
+    }
+    this.removeFromCommitGroup(path);
+    // The whole file goes in, including the hunks split off into the group
+    this.unsplitFile(group, path);
+    group.files.push(path);
+    this.saveState();
+    this.render();
+  }
+
+  private removeFromCommitGroup(path: string): void {
+    this.state.commitGroups.forEach(group => {
+      group.files = group.files.filter(p => p !== path);
+    });
+  }
+
+  private deleteCommitGroup(groupId: string): void {
+    // Split off hunks go back to the commits of their files
+    const deleted = this.state.commitGroups.find(g => g.id === groupId);
+    if (deleted) {
+      Object.keys(deleted.hunks || {}).forEach(path => this.unsplitFile(deleted, path));
+    }
+    this.state.commitGroups = this.state.commitGroups.filter(g => g.id !== groupId);
+    this.state.commitOptions.delete(`group:${groupId}`);
+    this.saveState();
+    this.render();
+  }
+
+  /**
+   * Build the queue of commits that are ready, in the user's chosen order.
+   * Commits the user hasn't placed yet follow: commit groups first, then files in list order.
+   */
+  private getCommitQueue(): QueuedCommit[] {
+    const filteredFiles = this.getFilteredFiles();
+    const queue: QueuedCommit[] = [];
+
+    this.state.commitGroups.forEach(group => {
+      const message = this.splitMessage(group.message);
+      const files = [
+        ...this.getGroupFiles(group).filter(path => this.hasChangesToCommit(path)).map(path => this.toFileRequest(path)),
+        ...this.getSplitFiles(group).map(path => ({ filePath: path, hunks: group.hunks![path] }))
+      ];
+      if (message.subject && files.length > 0) {
+        queue.push({
+          key: `group:${group.id}`,
+          label: group.name,
+          request: {
+            name: group.name,
+            message,
+            files,
+            options: this.state.commitOptions.get(`group:${group.id}`)
+          }
+        });
+      }
+    });
+
+    filteredFiles.forEach(file => {
+      const message = this.getMessageParts(file.path);
+      if (message.subject &&
+          this.state.selectedFiles.has(file.path) &&
+          !this.getCommitGroup(file.path) &&
+          this.hasChangesToCommit(file.path)) {
+        queue.push({
+          key: `file:${file.path}`,
+          label: file.relativePath,
+          request: { message, files: [this.toFileRequest(file.path)], options: this.state.commitOptions.get(`file:${file.path}`) }
+        });
+      }
+    });
+
+    const rank = (key: string) => {
+      const index = this.state.commitOrder.indexOf(key);
+      return index < 0 ? Number.MAX_SAFE_INTEGER : index;
+    };
+    return queue
+      .map((item, index) => ({ item, index }))
+      .sort((a, b) => rank(a.item.key) - rank(b.item.key) || a.index - b.index)
+      .map(({ item }) => item);
+  }
+
+  private getCommitRequests(): CommitGroupRequest[] {
+    return this.getCommitQueue().map(q => q.request);
+  }
+
+  /**
+   * Move a commit to a new position in the queue and remember the resulting order
+   */
+  private moveInQueue(key: string, targetIndex: number): void {
+    const keys = this.getCommitQueue().map(q => q.key);
+    const index = keys.indexOf(key);
+    if (index < 0 || targetIndex < 0 || targetIndex >= keys.length || targetIndex === index) {
+      return;
+    }
+    keys.splice(index, 1);
+    keys.splice(targetIndex, 0, key);
+
+    // Commits that aren't ready yet keep their remembered position after the ordered ones
+    this.state.commitOrder = [...keys, ...this.state.commitOrder.filter(k => !keys.includes(k))];
+    this.saveState();
+    this.render();
+    (document.querySelector(`.queue-item[data-key="${CSS.escape(key)}"]`) as HTMLElement | null)?.focus();
+  }
+
+  private renderCommitQueue(): string {
+    const queue = this.getCommitQueue();
+    if (queue.length < 2) {
+      return '<div id="commit-queue"></div>';
+    }
+
+    return `
+      <div class="commit-queue" id="commit-queue">
+        <div class="commit-queue-header">
+          <span>Commit order</span>
+          <span class="commit-queue-hint">Drag, or <kbd>Alt</kbd>+<kbd>↑</kbd>/<kbd>↓</kbd> to reorder</span>
+        </div>
+        <ol class="commit-queue-list">
+          ${queue.map((item, index) => `
+            <li class="queue-item" draggable="true" tabindex="0" data-key="${this.escapeHtml(item.key)}" data-index="${index}">
+              <span class="queue-handle">⋮⋮</span>
+              <span class="queue-position">${index + 1}.</span>
+              <span class="queue-label">${this.escapeHtml(item.label)}</span>
+              <span class="queue-subject">${this.escapeHtml(item.request.message.subject)}</span>
+              <button class="btn btn-icon queue-move" data-key="${this.escapeHtml(item.key)}" data-target="${index - 1}" title="Move up" ${index === 0 ? 'disabled' : ''}>↑</button>
+              <button class="btn btn-icon queue-move" data-key="${this.escapeHtml(item.key)}" data-target="${index + 1}" title="Move down" ${index === queue.length - 1 ? 'disabled' : ''}>↓</button>
+            </li>
+          `).join('')}
+        </ol>
+      </div>
+    `;
+  }
+
+  private setupCommitQueueListeners(): void {
+    document.querySelectorAll('.queue-move').forEach(btn => {
+      btn.addEventListener('click', (e) => {
+        const target = e.currentTarget as HTMLElement;
+        this.moveInQueue(target.dataset.key!, Number(target.dataset.target));
+      });
+    });
+
+    document.querySelectorAll('.queue-item').forEach(item => {
+      const element = item as HTMLElement;
+
+      element.addEventListener('keydown', (e) => {
+        if (e.altKey && (e.key === 'ArrowUp' || e.key === 'ArrowDown')) {
+          e.preventDefault();
+          const delta = e.key === 'ArrowUp' ? -1 : 1;
+          this.moveInQueue(element.dataset.key!, Number(element.dataset.index) + delta);
+        }
+      });
+
+      element.addEventListener('dragstart', (e) => {
+        e.dataTransfer?.setData('application/x-gittoys-queue', element.dataset.key!);
+        e.stopPropagation();
+      });
+      element.addEventListener('dragover', (e) => {
+        if (e.dataTransfer?.types.includes('application/x-gittoys-queue')) {
+          e.preventDefault();
+          element.classList.add('drag-over');
+        }
+      });
+      element.addEventListener('dragleave', () => element.classList.remove('drag-over'));
+      element.addEventListener('drop', (e) => {
+        const key = e.dataTransfer?.getData('application/x-gittoys-queue');
+        if (key) {
+          e.preventDefault();
+          e.stopPropagation();
+          this.moveInQueue(key, Number(element.dataset.index));
+        }
+      });
+    });
+  }
+
+  /**
+   * Re-render only the queue, e.g. while a message is being typed
+   */
+  private updateCommitQueue(): void {
+    const queueElement = document.getElementById('commit-queue');
+    if (queueElement) {
+      queueElement.outerHTML = this.renderCommitQueue();
+      this.setupCommitQueueListeners();
+    }
+  }
+
+  private getCommitSummary(readyToCommit: number, selectedCount: number): string {
+    const lintErrors = this.getCommitQueue().filter(q => this.hasLintErrors(q.key)).length;
+    if (lintErrors > 0) {
+      return `${lintErrors} commit message${lintErrors !== 1 ? 's have' : ' has'} lint errors`;
+    }
+    return readyToCommit > 0 
+      ? `Ready to create ${readyToCommit} commit${readyToCommit !== 1 ? 's' : ''} ${this.state.settings.pushAfterCommit ? '(will push)' : ''}`
+      : `${selectedCount} file${selectedCount !== 1 ? 's' : ''} selected - add commit messages`;
+  }
+
   private applyTemplateToSelected(template: string): void {
     this.state.selectedFiles.forEach(path => {
+      const file = this.state.files.find(f => f.path === path);
+      const [subject, ...body] = (file ? this.expandTemplate(template, file) : template).split('\n');
       const currentMessage = this.state.commitMessages.get(path) || '';
-      if (!currentMessage.startsWith(template)) {
-        this.state.commitMessages.set(path, template + currentMessage);
+      if (!currentMessage.startsWith(subject)) {
+        this.state.commitMessages.set(path, subject + currentMessage);
+      }
+      // The rest of a multi-line template goes to an empty body
+      if (body.join('\n').trim() && !this.state.commitBodies.get(path)?.trim()) {
+        this.state.commitBodies.set(path, body.join('\n').trim());
       }
     });
     this.saveState();
     this.render();
+    this.lintAll();
+
+    // Jump to the first placeholder that still needs filling in
+    const inputs = Array.from(document.querySelectorAll('.commit-input[data-path]')) as HTMLTextAreaElement[];
+    const input = inputs.find(i => PLACEHOLDER_PATTERN.test(i.value));
+    if (input) {
+      input.focus();
+      this.selectNextPlaceholder(input, 0);
+    }
+  }
+
+  /**
+   * Fill in the template variables for a file; variables without a value stay as placeholders
+   */
+  private expandTemplate(template: string, file: FileInfo): string {
+    const parts = file.relativePath.split('/');
+    const basename = parts.pop() || file.relativePath;
+    const dir = parts.join('/');
+    const values: Record<string, string | undefined> = {
+      file: file.relativePath,
+      basename,
+      dir,
+      scope: file.scope,
+      status: file.status,
+      branch: (file.repository || this.state.repoInfo)?.branch,
+      ticket: (file.repository || this.state.repoInfo)?.ticket,
+      date: new Date().toISOString().slice(0, 10)
+    };
+
+    return template.replace(/\{([a-z]+)\}/g, (placeholder, name: string) =>
+      TEMPLATE_VARIABLES.includes(name) && values[name] ? values[name]! : placeholder
+    );
+  }
+
+  /**
+   * Select the next `{placeholder}` at or after the given offset; returns false if there is none
+   */
+  private selectNextPlaceholder(textarea: HTMLTextAreaElement, from: number): boolean {
+    const match = PLACEHOLDER_PATTERN.exec(textarea.value.slice(from));
+    if (!match) {
+      return false;
+    }
+    const start = from + match.index;
+    textarea.setSelectionRange(start, start + match[0].length);
+    return true;
   }
 
+  /**
+   * Keep the state across reloads of the webview, and as the branch's draft in the extension
+   */
   private saveState(): void {
+    this.scheduleDraftSave();
     this.vscode.setState({
       selectedFiles: Array.from(this.state.selectedFiles),
       commitMessages: Object.fromEntries(this.state.commitMessages),
+      commitBodies: Object.fromEntries(this.state.commitBodies),
+      commitTrailers: Object.fromEntries(this.state.commitTrailers),
+      hunkSelections: Object.fromEntries(this.state.hunkSelections),
+      commitGroups: this.state.commitGroups,
+      commitOrder: this.state.commitOrder,
+      atomic: this.state.atomic,
+      runOptions: this.state.runOptions,
+      commitOptions: Object.fromEntries(this.state.commitOptions),
       filter: this.state.filter,
       groupByFolder: this.state.groupByFolder
     });
   }
 
+  private getDraft(): BulkCommitDraft {
+    return {
+      selectedFiles: Array.from(this.state.selectedFiles),
+      // A message that is only the prefilled `type(scope): ` isn't worth a draft
+      commitMessages: Object.fromEntries(Array.from(this.state.commitMessages).filter(([path]) => !this.isMessageEmpty(path))),
+      commitBodies: Object.fromEntries(this.state.commitBodies),
+      commitTrailers: Object.fromEntries(this.state.commitTrailers),
+      hunkSelections: Object.fromEntries(this.state.hunkSelections),
+      commitGroups: this.state.commitGroups,
+      commitOrder: this.state.commitOrder,
+      commitOptions: Object.fromEntries(this.state.commitOptions)
+    };
+  }
+
+  private scheduleDraftSave(): void {
+    window.clearTimeout(this.draftTimer);
+    this.draftTimer = window.setTimeout(() => this.flushDraft(), 500);
+  }
+
+  private flushDraft(): void {
+    if (this.draftTimer === undefined) {
+      return;
+    }
+    window.clearTimeout(this.draftTimer);
+    this.draftTimer = undefined;
+
+    const repoInfo = this.state.repoInfo;
+    if (repoInfo) {
+      this.vscode.postMessage({ command: 'saveDraft', rootPath: repoInfo.rootPath, branch: repoInfo.branch, draft: this.getDraft() });
+    }
+  }
+
+  /**
+   * Load the draft of the current branch, or merge a recovered one into what is already there
+   */
+  private applyDraft(draft: BulkCommitDraft | null, merge: boolean): void {
+    if (!merge) {
+      this.state.selectedFiles = new Set(draft?.selectedFiles || []);
+      this.state.commitMessages = new Map(Object.entries(draft?.commitMessages || {}));
+      this.state.commitBodies = new Map(Object.entries(draft?.commitBodies || {}));
+      this.state.commitTrailers = new Map(Object.entries(draft?.commitTrailers || {}));
+      this.state.hunkSelections = new Map(Object.entries(draft?.hunkSelections || {}));
+      this.state.commitGroups = draft?.commitGroups || [];
+      this.state.commitOrder = draft?.commitOrder || [];
+      this.state.commitOptions = new Map(Object.entries(draft?.commitOptions || {}));
+      this.state.lintResults.clear();
+      this.saveState();
+      // The draft came from the extension, and the repository info may still be the previous branch's
+      window.clearTimeout(this.draftTimer);
+      this.draftTimer = undefined;
+    } else if (draft) {
+      // What was typed in this panel wins over the recovered draft
+      const fill = <T>(target: Map<string, T>, source: Record<string, T>, isEmpty: (value: T | undefined) => boolean) => {
+        Object.entries(source).forEach(([key, value]) => {
+          if (isEmpty(target.get(key))) {
+            target.set(key, value);
+          }
+        });
+      };
+      fill(this.state.commitMessages, draft.commitMessages, m => !m?.trim());
+      fill(this.state.commitBodies, draft.commitBodies, b => !b?.trim());
+      fill(this.state.commitTrailers, draft.commitTrailers, t => !t?.length);
+      fill(this.state.hunkSelections, draft.hunkSelections, h => !h);
+      fill(this.state.commitOptions, draft.commitOptions, o => !o);
+      draft.selectedFiles.forEach(path => this.state.selectedFiles.add(path));
+
+      // Files already in a group here stay there
+      draft.commitGroups.forEach(group => {
+        if (!this.state.commitGroups.some(g => g.id === group.id)) {
+          this.state.commitGroups.push({ ...group, files: group.files.filter(path => !this.getCommitGroup(path)) });
+        }
+      });
+      this.state.commitOrder = [...this.state.commitOrder, ...draft.commitOrder.filter(k => !this.state.commitOrder.includes(k))];
+      this.saveState();
+    }
+
+    this.render();
+    this.lintAll();
+  }
+
+  private toggleDrafts(): void {
+    this.state.showDrafts = !this.state.showDrafts;
+    if (this.state.showDrafts) {
+      // Make sure the list includes the latest edits
+      this.flushDraft();
+      this.vscode.postMessage({ command: 'getDrafts' });
+    }
+    this.render();
+  }
+
+  private renderDrafts(): string {
+    if (!this.state.showDrafts) {
+      return '';
+    }
+
+    return `
+      <div class="drafts">
+        <div class="drafts-header">
+          <span>Drafts</span>
+          <button class="btn btn-icon" id="btn-close-drafts" title="Close">✕</button>
+        </div>
+        ${this.state.drafts.length === 0 ? '<div class="drafts-empty">No saved drafts</div>' : `
+          <ul class="drafts-list">
+            ${this.state.drafts.map(draft => {
+              const current = draft.id === this.state.currentDraftId;
+              return `
+                <li class="draft-item ${current ? 'current' : ''}" title="${this.escapeHtml(draft.rootPath)}">
+                  <span class="draft-repo">${this.escapeHtml(draft.repoName)}</span>
+                  <span class="draft-branch">⎇ ${this.escapeHtml(draft.branch)}</span>
+                  <span class="draft-meta">
+                    ${draft.messageCount} message${draft.messageCount !== 1 ? 's' : ''} · ${this.escapeHtml(new Date(draft.updatedAt).toLocaleString())}
+                  </span>
+                  ${current
+                    ? '<span class="staged-badge">Current</span>'
+                    : `<button class="btn btn-secondary draft-restore" data-id="${this.escapeHtml(draft.id)}" title="Add this draft's messages to the current branch">Recover</button>`}
+                  <button class="btn btn-icon draft-discard" data-id="${this.escapeHtml(draft.id)}" title="Discard draft">🗑</button>
+                </li>
+              `;
+            }).join('')}
+          </ul>
+        `}
+      </div>
+    `;
+  }
+
   private getStatusLabel(status: string): string {
     const labels: Record<string, string> = {
       modified: 'M',
@@ -276,12 +1449,19 @@ class BulkCommitApp {
     // Apply search
     if (this.state.searchQuery) {
       const query = this.state.searchQuery.toLowerCase();
-      files = files.filter(f => f.relativePath.toLowerCase().includes(query));
+      files = files.filter(f => this.getDisplayPath(f).toLowerCase().includes(query));
     }
 
     return files;
   }
 
+  /**
+   * Path shown for a file; prefixed with its repository when every repository is shown
+   */
+  private getDisplayPath(file: FileInfo): string {
+    return file.repository ? `${file.repository.name}/${file.relativePath}` : file.relativePath;
+  }
+
   private getGroupedFiles(): Map<string, FileInfo[]> {
     const files = this.getFilteredFiles();
     const groups = new Map<string, FileInfo[]>();
@@ -292,7 +1472,7 @@ class BulkCommitApp {
     }
 
     files.forEach(file => {
-      const parts = file.relativePath.split('/');
+      const parts = this.getDisplayPath(file).split('/');
       const folder = parts.length > 1 ? parts.slice(0, -1).join('/') : '(root)';
       
       if (!groups.has(folder)) {
@@ -330,10 +1510,7 @@ class BulkCommitApp {
     const selectedCount = Array.from(this.state.selectedFiles).filter(
       path => filteredFiles.some(f => f.path === path)
     ).length;
-    const filesWithMessages = Array.from(this.state.selectedFiles)
-      .filter(path => this.state.commitMessages.get(path)?.trim())
-      .filter(path => filteredFiles.some(f => f.path === path));
-    const readyToCommit = filesWithMessages.length;
+    const readyToCommit = this.getCommitRequests().length;
 
     this.appElement.innerHTML = `
       ${this.state.error ? `<div class="error-state">${this.escapeHtml(this.state.error)}</div>` : ''}
@@ -344,11 +1521,16 @@ class BulkCommitApp {
           Bulk Commit
         </h1>
         <div class="repo-info">
-          <span>${this.escapeHtml(this.state.repoInfo.name)}</span>
-          <span class="branch">
-            <span>⎇</span>
-            ${this.escapeHtml(this.state.repoInfo.branch)}
-          </span>
+          ${this.state.repositories.length > 1 ? this.renderRepositorySelect() : `
+            <span>${this.escapeHtml(this.state.repoInfo.name)}</span>
+          `}
+          ${this.state.repoInfo.branch ? `
+            <span class="branch">
+              <span>⎇</span>
+              ${this.escapeHtml(this.state.repoInfo.branch)}
+            </span>
+          ` : ''}
+          ${this.renderTicketBadge()}
         </div>
       </header>
 
@@ -396,11 +1578,29 @@ class BulkCommitApp {
         </div>
         <div class="toolbar-right">
           <button class="btn btn-icon" id="btn-refresh" title="Refresh">🔄</button>
+          <button class="btn btn-secondary" id="btn-drafts" title="Drafts saved for other branches and repositories">Drafts</button>
+          <button class="btn btn-secondary" id="btn-fill-suggestions" title="Use the suggested message for every selected file without one" ${this.getFillableFiles().length === 0 ? 'disabled' : ''}>Fill Empty</button>
+          <button class="btn btn-secondary" id="btn-new-group" title="Group the selected files into one commit">New Group</button>
+          <button class="btn btn-secondary" id="btn-stash-selected" title="Set the selected files aside in a stash, to commit the rest without them" ${selectedCount === 0 || this.state.commitRun?.running ? 'disabled' : ''}>Stash Selected</button>
           <button class="btn btn-secondary" id="btn-select-all">Select All</button>
           <button class="btn btn-secondary" id="btn-select-none">Select None</button>
         </div>
       </div>
 
+      ${this.renderLastResult()}
+
+      ${this.renderCommitRun()}
+
+      ${this.renderDrafts()}
+
+      ${this.renderCommitGroups()}
+
+      ${this.renderCommitQueue()}
+
+      <datalist id="trailer-keys">
+        ${TRAILER_KEYS.map(key => `<option value="${key}"></option>`).join('')}
+      </datalist>
+
       ${filteredFiles.length === 0 ? `
         <div class="empty-state">
           <div class="icon">✨</div>
@@ -415,41 +1615,601 @@ class BulkCommitApp {
         <div class="commit-container">
           <div class="commit-actions">
             <span class="commit-summary">
-              ${readyToCommit > 0 
-                ? `Ready to commit ${readyToCommit} file${readyToCommit !== 1 ? 's' : ''} ${this.state.settings.pushAfterCommit ? '(will push)' : ''}`
-                : `${selectedCount} file${selectedCount !== 1 ? 's' : ''} selected - add commit messages`}
+              ${this.getCommitSummary(readyToCommit, selectedCount)}
+            </span>
+            <label class="group-toggle" title="If any commit fails, roll back HEAD and the index to their state before the run">
+              <input type="checkbox" id="atomic-toggle" ${this.isAtomic() ? 'checked' : ''} />
+              All or nothing
+            </label>
+            <button 
+              class="btn btn-primary" 
+              id="btn-commit" 
+              ${readyToCommit === 0 || this.state.commitRun?.running ? 'disabled' : ''}
+              title="Commit (Ctrl+Enter)"
+            >
+              Commit ${readyToCommit > 0 ? `(${readyToCommit})` : ''}
+            </button>
+          </div>
+          <div class="commit-options" title="Options for every commit of the run; ⚙ on a commit overrides them">
+            ${COMMIT_OPTIONS.map(option => `
+              <label class="group-toggle" title="${this.escapeHtml(option.title)}">
+                <input type="checkbox" class="run-option" data-option="${option.key}" ${this.getRunOptions()[option.key] ? 'checked' : ''} />
+                ${option.label}
+              </label>
+            `).join('')}
+          </div>
+          ${this.renderAuthors()}
+          <div class="keyboard-hints">
+            <span><kbd>Ctrl</kbd>+<kbd>Enter</kbd> Commit</span>
+            <span><kbd>Ctrl</kbd>+<kbd>F</kbd> Search</span>
+            <span><kbd>Tab</kbd> in an empty message → accept suggestion</span>
+            <span>Click path → view diff</span>
+            <span>Drag files onto a group to commit them together</span>
+          </div>
+        </div>
+      `}
+
+      ${this.renderCommitPlan()}
+    `;
+
+    this.setupEventListeners();
+  }
+
+  private renderRepositorySelect(): string {
+    const current = this.state.repoInfo?.rootPath;
+    const total = this.state.repositories.reduce((n, r) => n + r.changes, 0);
+    return `
+      <select id="repo-select" class="repo-select" title="Repository to commit to">
+        ${this.state.repositories.map(repo => `
+          <option value="${this.escapeHtml(repo.rootPath)}" ${repo.rootPath === current ? 'selected' : ''} title="${this.escapeHtml(repo.rootPath)}">
+            ${this.escapeHtml(repo.name)}${repo.changes > 0 ? ` (${repo.changes})` : ''}
+          </option>
+        `).join('')}
+        <option value="" ${current === '' ? 'selected' : ''}>All repositories (${total})</option>
+      </select>
+    `;
+  }
+
+  private renderTicketBadge(): string {
+    const ticket = this.state.repoInfo?.ticket;
+    const placement = this.state.settings.ticketPlacement;
+    if (!ticket || placement === 'none') {
+      return '';
+    }
+    const where = placement === 'trailer' ? `as a "${this.state.settings.ticketTrailer}:" trailer` : `as a ${placement}`;
+    return `<span class="branch ticket" title="Added to every commit message ${this.escapeHtml(where)}">🎫 ${this.escapeHtml(ticket)}</span>`;
+  }
+
+  private renderFilterButton(filter: FilterType, label: string, count: number): string {
+    const isActive = this.state.filter === filter;
+    return `
+      <button 
+        class="filter-btn ${isActive ? 'active' : ''}" 
+        data-filter="${filter}"
+        ${count === 0 && filter !== 'all' ? 'disabled' : ''}
+      >
+        ${label} <span class="filter-count">${count}</span>
+      </button>
+    `;
+  }
+
+  private isAtomic(): boolean {
+    return this.state.atomic ?? this.state.settings.atomic;
+  }
+
+  /**
+   * Options of the run: the settings' defaults with the user's changes on top
+   */
+  private getRunOptions(): CommitOptionsInfo {
+    return { ...this.state.settings.commitOptions, ...this.state.runOptions };
+  }
+
+  /**
+   * Co-authors added as trailers to every commit of the run, and the author override
+   */
+  private renderAuthors(): string {
+    const name = (person: string) => person.replace(/\s*<.*>$/, '');
+    const available = this.state.roster.filter(p => !this.state.coAuthors.includes(p));
+    const authors = this.state.author && !this.state.roster.includes(this.state.author)
+      ? [this.state.author, ...this.state.roster]
+      : this.state.roster;
+
+    return `
+      <div class="commit-authors">
+        <span class="commit-authors-label">Co-authors</span>
+        ${this.state.coAuthors.map(person => `
+          <span class="co-author" title="${this.escapeHtml(person)}">
+            ${this.escapeHtml(name(person))}
+            <button class="co-author-remove" data-person="${this.escapeHtml(person)}" title="Remove co-author">✕</button>
+          </span>
+        `).join('')}
+        <select id="co-author-select" title="Added as Co-authored-by to every commit" ${available.length === 0 ? 'disabled' : ''}>
+          <option value="">+ Add</option>
+          ${available.map(person => `<option value="${this.escapeHtml(person)}">${this.escapeHtml(person)}</option>`).join('')}
+        </select>
+        <label class="group-toggle commit-author" title="Author of every commit of the run">
+          Author
+          <select id="author-select">
+            <option value="">Me</option>
+            ${authors.map(person => `
+              <option value="${this.escapeHtml(person)}" ${person === this.state.author ? 'selected' : ''}>${this.escapeHtml(person)}</option>
+            `).join('')}
+          </select>
+        </label>
+      </div>
+    `;
+  }
+
+  private renderOptionsToggle(key: string): string {
+    const overrides = Object.keys(this.state.commitOptions.get(key) || {}).length;
+    return `
+      <button class="options-toggle ${overrides > 0 ? 'partial' : ''}" data-key="${this.escapeHtml(key)}" title="Commit options for this commit">
+        ⚙ Options${overrides > 0 ? ` (${overrides})` : ''}
+      </button>
+    `;
+  }
+
+  /**
+   * Checkboxes for one commit's options; they start from the run's options
+   */
+  private renderCommitOptions(key: string): string {
+    const own = this.state.commitOptions.get(key) || {};
+    const run = this.getRunOptions();
+    return `
+      <div class="commit-option-row">
+        ${COMMIT_OPTIONS.map(option => `
+          <label class="group-toggle ${option.key in own ? 'overridden' : ''}" title="${this.escapeHtml(option.title)}">
+            <input type="checkbox" class="commit-option" data-key="${this.escapeHtml(key)}" data-option="${option.key}" ${own[option.key] ?? run[option.key] ? 'checked' : ''} />
+            ${option.label}
+          </label>
+        `).join('')}
+        ${Object.keys(own).length > 0 ? `<button class="options-reset" data-key="${this.escapeHtml(key)}">Use run options</button>` : ''}
+      </div>
+    `;
+  }
+
+  private setCommitOption(key: string, option: keyof CommitOptionsInfo, value: boolean): void {
+    const own = { ...this.state.commitOptions.get(key) };
+    if (value === !!this.getRunOptions()[option]) {
+      delete own[option];
+    } else {
+      own[option] = value;
+    }
+    if (Object.keys(own).length > 0) {
+      this.state.commitOptions.set(key, own);
+    } else {
+      this.state.commitOptions.delete(key);
+    }
+    this.saveState();
+    this.render();
+  }
+
+  private updateCommitRunEntry(index: number, update: Partial<CommitRunEntry>): void {
+    const entry = this.state.commitRun?.entries[index];
+    if (!entry) {
+      return;
+    }
+    Object.assign(entry, update);
+
+    // Only patch the progress list so typing elsewhere isn't interrupted
+    const runElement = document.getElementById('commit-run');
+    if (runElement) {
+      runElement.outerHTML = this.renderCommitRun();
+      this.setupCommitRunListeners();
+    } else {
+      this.render();
+    }
+  }
+
+  /**
+   * Attach the final per-commit details to the progress list, turning it into the results view
+   */
+  private applyResultToCommitRun(result: BulkCommitResultInfo): void {
+    if (!this.state.commitRun) {
+      this.state.commitRun = { entries: [], running: false, cancelling: false };
+    }
+    const run = this.state.commitRun;
+    run.running = false;
+
+    result.commits.forEach(commit => {
+      run.entries[commit.index] = {
+        ...run.entries[commit.index],
+        label: commit.label,
+        repository: commit.repository,
+        status: commit.success ? 'committed' : 'failed',
+        hash: commit.hash,
+        error: commit.error,
+        details: commit
+      };
+    });
+  }
+
+  private renderCommitDetails(entry: CommitRunEntry): string {
+    const details = entry.details;
+    if (!details) {
+      return '';
+    }
+
+    const meta: string[] = [];
+    if (details.author) {
+      meta.push(this.escapeHtml(details.author));
+    }
+    if (details.date) {
+      meta.push(this.escapeHtml(new Date(details.date).toLocaleString()));
+    }
+    if (details.parent) {
+      meta.push(`parent ${details.parent.substring(0, 7)}`);
+    }
+
+    return `
+      <div class="commit-run-details">
+        <div class="commit-run-subject">${this.escapeHtml(details.message.split('\n')[0])}</div>
+        ${meta.length > 0 ? `<div class="commit-run-meta">${meta.join(' · ')}</div>` : ''}
+        <div class="commit-run-files">${details.files.map(f => this.escapeHtml(f)).join(', ')}</div>
+      </div>
+    `;
+  }
+
+  /**
+   * What git and the hooks printed for a failed commit, with actions to retry it
+   */
+  private renderCommitFailure(entry: CommitRunEntry, index: number): string {
+    const output = entry.details?.output;
+    const text = output ? [output.stdout, output.stderr].filter(s => s.trim()).join('\n') : '';
+    const canRetry = !!entry.details && !this.isRolledBack(entry.details);
+    const expanded = this.state.expandedFailures.has(index);
+    if (!text && !canRetry) {
+      return '';
+    }
+
+    return `
+      <div class="commit-run-failure">
+        <div class="commit-run-failure-actions">
+          ${text ? `
+            <button class="failure-toggle" data-index="${index}">${expanded ? '▾' : '▸'} Hook output</button>
+          ` : ''}
+          ${canRetry ? `
+            <button class="btn btn-secondary commit-retry" data-index="${index}" title="Commit this again with the same message">Retry</button>
+            <button class="btn btn-secondary commit-retry" data-index="${index}" data-no-verify="true" title="Commit without running the pre-commit and commit-msg hooks">Retry with --no-verify</button>
+          ` : ''}
+        </div>
+        ${expanded && text ? `<pre class="commit-run-output">${this.escapeHtml(text)}</pre>` : ''}
+      </div>
+    `;
+  }
+
+  /**
+   * Forget the messages, groups and selection of the commits a run created; failed and
+   * rolled back commits keep theirs so they can be fixed and committed again
+   */
+  private clearCommitted(commits: CommitResultInfo[]): void {
+    const committed = new Set(commits
+      .filter(c => c.success && !this.isRolledBack(c))
+      .flatMap(c => c.filePaths));
+    if (committed.size === 0) {
+      return;
+    }
+
+    const keys = new Set(Array.from(committed, path => `file:${path}`));
+    this.state.commitGroups = this.state.commitGroups.filter(group => {
+      const done = [...group.files, ...Object.keys(group.hunks || {})].some(path => committed.has(path));
+      if (done) {
+        keys.add(`group:${group.id}`);
+      }
+      return !done;
+    });
+
+    committed.forEach(path => {
+      this.state.commitMessages.delete(path);
+      this.state.commitBodies.delete(path);
+      this.state.commitTrailers.delete(path);
+      this.state.expandedDetails.delete(path);
+      this.state.selectedFiles.delete(path);
+      this.state.hunkSelections.delete(path);
+    });
+    keys.forEach(key => {
+      this.state.commitOptions.delete(key);
+      this.state.expandedOptions.delete(key);
+      this.state.lintResults.delete(key);
+    });
+    this.state.commitOrder = this.state.commitOrder.filter(key => !keys.has(key));
+  }
+
+  /**
+   * Whether the commits of an entry were undone; a run across repositories rolls back per repository
+   */
+  private isRolledBack(details?: CommitResultInfo): boolean {
+    const result = this.state.lastResult;
+    const repository = result?.repositories?.find(r => r.rootPath === details?.rootPath);
+    return repository ? repository.rolledBack : !!result?.rolledBack;
+  }
+
+  private renderCommitRun(): string {
+    const run = this.state.commitRun;
+    if (!run) {
+      return '';
+    }
+
+    const done = run.entries.filter(e => e.status === 'committed' || e.status === 'failed').length;
+    const icons: Record<CommitRunEntry['status'], string> = {
+      pending: '○',
+      running: '◌',
+      committed: '✓',
+      failed: '✕'
+    };
+
+    // Commits of a rolled back run no longer exist, so don't link them
+    const linkHashes = (entry: CommitRunEntry) => !this.isRolledBack(entry.details);
+
+    return `
+      <div class="commit-run" id="commit-run">
+        <div class="commit-run-header">
+          <span>${run.running ? 'Committing' : 'Commit run'}: ${done}/${run.entries.length}</span>
+          ${run.running ? `
+            <button class="btn btn-secondary" id="btn-cancel-commit" ${run.cancelling ? 'disabled' : ''}>
+              ${run.cancelling ? 'Cancelling...' : 'Cancel'}
+            </button>
+          ` : this.state.lastResult ? `
+            <button class="btn btn-secondary" id="btn-copy-summary" title="Copy a summary of this run">Copy Summary</button>
+          ` : ''}
+        </div>
+        <progress class="commit-run-progress" max="${run.entries.length}" value="${done}"></progress>
+        <ul class="commit-run-list">
+          ${run.entries.map((entry, index) => `
+            ${entry.repository && entry.repository !== run.entries[index - 1]?.repository ? `
+              <li class="commit-run-repository">${this.escapeHtml(entry.repository)}</li>
+            ` : ''}
+            <li class="commit-run-entry ${entry.status}">
+              <div class="commit-run-row">
+                <span class="commit-run-icon">${icons[entry.status]}</span>
+                <span class="commit-run-label">${this.escapeHtml(entry.label)}</span>
+                ${entry.hash ? (linkHashes(entry) && !run.running
+                  ? `<a class="commit-run-hash commit-hash-link" href="#" data-hash="${entry.hash}" data-root="${this.escapeHtml(entry.details?.rootPath || '')}" title="Open commit changes">${entry.hash.substring(0, 7)}</a>`
+                  : `<span class="commit-run-hash ${linkHashes(entry) ? '' : 'rolled-back'}">${entry.hash.substring(0, 7)}</span>`) : ''}
+                ${entry.error ? `<span class="commit-run-error" title="${this.escapeHtml(entry.error)}">${this.escapeHtml(entry.error)}</span>` : ''}
+              </div>
+              ${run.running ? '' : this.renderCommitDetails(entry)}
+              ${run.running || entry.status !== 'failed' ? '' : this.renderCommitFailure(entry, index)}
+            </li>
+          `).join('')}
+        </ul>
+      </div>
+    `;
+  }
+
+  private setupCommitRunListeners(): void {
+    document.getElementById('btn-copy-summary')?.addEventListener('click', () => {
+      this.vscode.postMessage({ command: 'copyResultSummary' });
+    });
+
+    document.querySelectorAll('.failure-toggle').forEach(btn => {
+      btn.addEventListener('click', (e) => {
+        const index = Number((e.currentTarget as HTMLElement).dataset.index);
+        if (this.state.expandedFailures.has(index)) {
+          this.state.expandedFailures.delete(index);
+        } else {
+          this.state.expandedFailures.add(index);
+        }
+        this.updateCommitRunEntry(index, {});
+      });
+    });
+
+    document.querySelectorAll('.commit-retry').forEach(btn => {
+      btn.addEventListener('click', (e) => {
+        const target = e.currentTarget as HTMLElement;
+        document.querySelectorAll('.commit-retry').forEach(b => (b as HTMLButtonElement).disabled = true);
+        this.vscode.postMessage({
+          command: 'retryCommit',
+          index: Number(target.dataset.index),
+          noVerify: target.dataset.noVerify === 'true'
+        });
+      });
+    });
+
+    document.querySelectorAll('.commit-hash-link').forEach(link => {
+      link.addEventListener('click', (e) => {
+        e.preventDefault();
+        const link = e.currentTarget as HTMLElement;
+        this.vscode.postMessage({ command: 'openCommit', hash: link.dataset.hash, rootPath: link.dataset.root || undefined });
+      });
+    });
+
+    document.getElementById('btn-cancel-commit')?.addEventListener('click', () => {
+      if (this.state.commitRun) {
+        this.state.commitRun.cancelling = true;
+      }
+      this.vscode.postMessage({ command: 'cancelCommit' });
+      const btn = document.getElementById('btn-cancel-commit') as HTMLButtonElement | null;
+      if (btn) {
+        btn.disabled = true;
+        btn.textContent = 'Cancelling...';
+      }
+    });
+  }
+
+  private closeCommitPlan(confirmed: boolean): void {
+    this.state.commitPlan = null;
+    this.vscode.postMessage({ command: confirmed ? 'confirmCommit' : 'discardPlan' });
+    this.render();
+  }
+
+  private renderCommitPlan(): string {
+    const plan = this.state.commitPlan;
+    if (!plan) {
+      return '';
+    }
+
+    const warningCount = plan.warnings.length + plan.commits.reduce((n, c) => n + c.warnings.length, 0);
+    const count = plan.commits.length;
+
+    return `
+      <div class="plan-overlay">
+        <div class="plan-dialog" role="dialog" aria-label="Review commit plan">
+          <div class="plan-header">
+            <h2>Review ${count} commit${count !== 1 ? 's' : ''}</h2>
+            <span class="plan-flags">
+              ${plan.atomic ? '<span class="staged-badge">All or nothing</span>' : ''}
+              ${plan.pushAfterCommit ? '<span class="staged-badge">Will push</span>' : ''}
             </span>
-            <button 
-              class="btn btn-primary" 
-              id="btn-commit" 
-              ${readyToCommit === 0 ? 'disabled' : ''}
-              title="Commit (Ctrl+Enter)"
-            >
-              Commit ${readyToCommit > 0 ? `(${readyToCommit})` : ''}
-            </button>
           </div>
-          <div class="keyboard-hints">
-            <span><kbd>Ctrl</kbd>+<kbd>Enter</kbd> Commit</span>
-            <span><kbd>Ctrl</kbd>+<kbd>F</kbd> Search</span>
-            <span>Click path → view diff</span>
+          ${plan.warnings.length > 0 ? `
+            <ul class="plan-warnings">
+              ${plan.warnings.map(w => `<li>⚠ ${this.escapeHtml(w)}</li>`).join('')}
+            </ul>
+          ` : ''}
+          <ol class="plan-commits">
+            ${plan.commits.map(commit => `
+              <li class="plan-commit">
+                ${commit.repository ? `<div class="plan-repository">${this.escapeHtml(commit.repository)}</div>` : ''}
+                ${commit.options.length > 0 ? `
+                  <div class="plan-options">${commit.options.map(o => `<span class="staged-badge">${this.escapeHtml(o)}</span>`).join('')}</div>
+                ` : ''}
+                <pre class="plan-message">${this.escapeHtml(commit.message)}</pre>
+                <ul class="plan-files">
+                  ${commit.files.map(file => `
+                    <li>
+                      <span class="plan-file-path">${this.escapeHtml(file.relativePath)}</span>
+                      ${file.partial ? '<span class="plan-partial">partial</span>' : ''}
+                      <span class="hunk-stats">
+                        ${file.binary ? 'binary' : `<span class="additions">+${file.additions}</span><span class="deletions">-${file.deletions}</span>`}
+                      </span>
+                    </li>
+                  `).join('')}
+                </ul>
+                ${commit.warnings.map(w => `<div class="plan-warning">⚠ ${this.escapeHtml(w)}</div>`).join('')}
+              </li>
+            `).join('')}
+          </ol>
+          <div class="plan-actions">
+            <span class="commit-summary">${warningCount > 0 ? `${warningCount} warning${warningCount !== 1 ? 's' : ''}` : 'No warnings'}</span>
+            <button class="btn btn-secondary" id="btn-discard-plan">Back</button>
+            <button class="btn btn-primary" id="btn-confirm-plan">Create ${count} commit${count !== 1 ? 's' : ''}</button>
           </div>
         </div>
-      `}
+      </div>
     `;
+  }
 
-    this.setupEventListeners();
+  private renderLastResult(): string {
+    const result = this.state.lastResult;
+    if (!result) {
+      return '';
+    }
+
+    let summary: string;
+    let kind: string;
+    if (result.repositories) {
+      // Commits of rolled back repositories are gone; all or nothing rolls back every repository it ran in
+      const count = result.repositories.length;
+      const created = result.repositories.reduce((n, repo) => n + repo.successful, 0);
+      kind = result.failed > 0 || result.cancelled ? (created > 0 ? 'warning' : 'error') : 'success';
+      summary = result.rolledBack && created === 0
+        ? `Bulk commit ${result.cancelled ? 'cancelled and rolled back' : 'rolled back'}: HEAD and the index of ` +
+          `${count} repositor${count !== 1 ? 'ies' : 'y'} were restored. No commits were created.`
+        : `${result.cancelled ? 'Cancelled: created' : 'Created'} ${created} of ${result.total} ` +
+          `commit${result.total !== 1 ? 's' : ''} across ${count} repositories` +
+          `${result.failed > 0 ? `; ${result.failed} failed` : ''}.`;
+    } else if (result.rolledBack) {
+      kind = 'error';
+      summary = result.cancelled
+        ? 'Bulk commit cancelled and rolled back: HEAD and the index were restored. No commits were created.'
+        : 'Bulk commit rolled back: a commit failed, so HEAD and the index were restored. No commits were created.';
+    } else if (result.cancelled) {
+      kind = 'warning';
+      summary = `Cancelled: created ${result.successful} of ${result.total} commit${result.total !== 1 ? 's' : ''}` +
+        `${result.failed > 0 ? `; ${result.failed} failed` : ''}.`;
+    } else if (result.failed > 0) {
+      kind = 'warning';
+      summary = `Created ${result.successful} of ${result.total} commit${result.total !== 1 ? 's' : ''}; ${result.failed} failed.`;
+    } else {
+      kind = 'success';
+      summary = `Created ${result.successful} commit${result.successful !== 1 ? 's' : ''}.`;
+    }
+
+    return `
+      <div class="result-banner ${kind}">
+        <div class="result-summary">
+          <span>${this.escapeHtml(summary)}</span>
+          <button class="clear-search" id="btn-dismiss-result" title="Dismiss">✕</button>
+        </div>
+        ${result.repositories ? `
+          <ul class="result-repositories">
+            ${result.repositories.map(repo => `
+              <li title="${this.escapeHtml(repo.rootPath)}">
+                <strong>${this.escapeHtml(repo.name)}</strong>:
+                ${repo.successful} committed${repo.failed > 0 ? `, ${repo.failed} failed` : ''}${repo.rolledBack ? ' - rolled back' : ''}
+              </li>
+            `).join('')}
+          </ul>
+        ` : ''}
+        ${result.errors.length > 0 ? `
+          <ul class="result-errors">
+            ${result.errors.map(e => `<li>${this.escapeHtml(e)}</li>`).join('')}
+          </ul>
+        ` : ''}
+      </div>
+    `;
   }
 
-  private renderFilterButton(filter: FilterType, label: string, count: number): string {
-    const isActive = this.state.filter === filter;
+  private renderCommitGroups(): string {
+    if (this.state.commitGroups.length === 0) {
+      return '';
+    }
+
+    const groups = this.state.commitGroups;
     return `
-      <button 
-        class="filter-btn ${isActive ? 'active' : ''}" 
-        data-filter="${filter}"
-        ${count === 0 && filter !== 'all' ? 'disabled' : ''}
-      >
-        ${label} <span class="filter-count">${count}</span>
-      </button>
+      <div class="commit-groups">
+        ${groups.map(group => `
+          <div class="commit-group" data-group="${group.id}">
+            <div class="commit-group-header">
+              <input 
+                type="text" 
+                class="commit-group-name" 
+                data-group="${group.id}" 
+                value="${this.escapeHtml(group.name)}" 
+                title="Rename group"
+              />
+              <span class="folder-count">${this.getGroupFiles(group).length + this.getSplitFiles(group).length}</span>
+              ${this.renderOptionsToggle(`group:${group.id}`)}
+              <button class="btn btn-icon commit-group-delete" data-group="${group.id}" title="Delete group">✕</button>
+            </div>
+            <div class="commit-group-files">
+              ${this.getGroupFiles(group).length === 0 && this.getSplitFiles(group).length === 0
+                ? '<span class="commit-group-empty">Drop files here</span>'
+                : this.getGroupFiles(group).map(path => {
+                  const file = this.state.files.find(f => f.path === path);
+                  const name = file ? file.relativePath : path;
+                  return `
+                    <span class="commit-group-file" draggable="true" data-path="${this.escapeHtml(path)}" title="${this.escapeHtml(name)}">
+                      ${this.escapeHtml(name.split('/').pop() || name)}
+                      <button class="commit-group-file-remove" data-path="${this.escapeHtml(path)}" title="Remove from group">✕</button>
+                    </span>
+                  `;
+                }).join('')}
+              ${this.getSplitFiles(group).map(path => {
+                const file = this.state.files.find(f => f.path === path);
+                const name = file ? file.relativePath : path;
+                const count = group.hunks![path].length;
+                return `
+                  <span class="commit-group-file" title="${this.escapeHtml(`${name}: ${count} hunk${count !== 1 ? 's' : ''}`)}">
+                    ${this.escapeHtml(name.split('/').pop() || name)} (${count} hunk${count !== 1 ? 's' : ''})
+                    <button class="commit-group-split-remove" data-group="${group.id}" data-path="${this.escapeHtml(path)}" title="Commit these hunks with the file instead">✕</button>
+                  </span>
+                `;
+              }).join('')}
+            </div>
+            <textarea 
+              class="commit-input commit-group-message ${this.hasLintErrors(`group:${group.id}`) ? 'lint-error' : ''}" 
+              data-group="${group.id}"
+              data-lint-key="group:${group.id}"
+              placeholder="Commit message for ${this.escapeHtml(group.name)}..."
+              rows="1"
+            >${this.escapeHtml(group.message)}</textarea>
+            ${this.state.expandedOptions.has(`group:${group.id}`) ? this.renderCommitOptions(`group:${group.id}`) : ''}
+            ${this.renderLintViolations(`group:${group.id}`)}
+          </div>
+        `).join('')}
+      </div>
     `;
   }
 
@@ -476,18 +2236,22 @@ class BulkCommitApp {
   }
 
   private renderFileItem(file: FileInfo): string {
+    const commitGroup = this.getCommitGroup(file.path);
     const isSelected = this.state.selectedFiles.has(file.path);
     const message = this.state.commitMessages.get(file.path) || '';
+    const suggestion = this.state.suggestions.get(file.path)?.[0]?.message.split('\n')[0];
+    const displayPath = this.getDisplayPath(file);
     const fileName = file.relativePath.split('/').pop() || file.relativePath;
 
     return `
-      <div class="file-item ${isSelected ? 'selected' : ''}" data-path="${this.escapeHtml(file.path)}">
+      <div class="file-item ${isSelected && !commitGroup ? 'selected' : ''}" data-path="${this.escapeHtml(file.path)}" draggable="true">
         <div class="file-header">
           <input 
             type="checkbox" 
             class="file-checkbox" 
             data-path="${this.escapeHtml(file.path)}"
-            ${isSelected ? 'checked' : ''}
+            ${isSelected || commitGroup ? 'checked' : ''}
+            ${commitGroup ? `disabled title="Committed with ${this.escapeHtml(commitGroup.name)}"` : ''}
           />
           <span 
             class="file-status ${file.status}" 
@@ -499,28 +2263,213 @@ class BulkCommitApp {
             title="Click to view diff"
           >
             <span class="file-name">${this.escapeHtml(fileName)}</span>
-            ${!this.state.groupByFolder && file.relativePath.includes('/') ? 
-              `<span class="file-folder">${this.escapeHtml(file.relativePath.split('/').slice(0, -1).join('/'))}</span>` : ''}
+            ${!this.state.groupByFolder && displayPath.includes('/') ? 
+              `<span class="file-folder">${this.escapeHtml(displayPath.split('/').slice(0, -1).join('/'))}</span>` : ''}
           </span>
           ${file.staged ? '<span class="staged-badge">Staged</span>' : ''}
+          ${commitGroup ? `<span class="staged-badge group-badge">${this.escapeHtml(commitGroup.name)}</span>` : ''}
         </div>
-        ${isSelected ? `
+        ${commitGroup && file.status === 'modified' ? `
+          <div class="commit-input-wrapper">
+            <div class="input-actions">${this.renderHunkToggle(file)}</div>
+            ${this.state.expandedHunks.has(file.path) ? this.renderHunkPicker(file) : ''}
+          </div>
+        ` : ''}
+        ${isSelected && !commitGroup ? `
           <div class="commit-input-wrapper">
             <textarea 
-              class="commit-input" 
+              class="commit-input ${this.hasLintErrors(`file:${file.path}`) ? 'lint-error' : ''} ${suggestion ? 'has-suggestion' : ''}" 
               data-path="${this.escapeHtml(file.path)}"
-              placeholder="Commit message for ${this.escapeHtml(fileName)}..."
+              data-lint-key="${this.escapeHtml(`file:${file.path}`)}"
+              placeholder="${suggestion ? this.escapeHtml(suggestion) : `Commit message for ${this.escapeHtml(fileName)}${file.suggestedPrefix ? `, e.g. ${this.escapeHtml(file.suggestedPrefix)}…` : '...'}`}"
               rows="1"
             >${this.escapeHtml(message)}</textarea>
             <div class="input-actions">
+              ${file.status === 'modified' ? this.renderHunkToggle(file) : ''}
+              ${this.renderSuggestionToggle(file.path)}
+              ${this.renderPrefixSuggestion(file, message)}
+              ${this.renderDetailsToggle(file.path)}
+              ${this.renderOptionsToggle(`file:${file.path}`)}
               <span class="char-count ${message.length > 72 ? 'warning' : ''}">${message.length}</span>
             </div>
+            ${this.state.expandedSuggestions.has(file.path) ? this.renderSuggestionList(file.path) : ''}
+            ${this.isDetailsExpanded(file.path) ? this.renderMessageDetails(file.path) : ''}
+            ${this.state.expandedOptions.has(`file:${file.path}`) ? this.renderCommitOptions(`file:${file.path}`) : ''}
+            ${this.renderLintViolations(`file:${file.path}`)}
+            ${this.state.expandedHunks.has(file.path) ? this.renderHunkPicker(file) : ''}
           </div>
         ` : ''}
       </div>
     `;
   }
 
+  /**
+   * Body and trailer rows stay open while they have content
+   */
+  private isDetailsExpanded(path: string): boolean {
+    return this.state.expandedDetails.has(path) ||
+      !!this.state.commitBodies.get(path)?.trim() ||
+      (this.state.commitTrailers.get(path) || []).length > 0;
+  }
+
+  private renderDetailsToggle(path: string): string {
+    if (this.isDetailsExpanded(path)) {
+      return '';
+    }
+    return `<button class="details-toggle" data-path="${this.escapeHtml(path)}" title="Add a body and trailers">+ Body &amp; trailers</button>`;
+  }
+
+  private renderMessageDetails(path: string): string {
+    const trailers = this.state.commitTrailers.get(path) || [];
+    return `
+      <div class="commit-details">
+        <textarea 
+          class="commit-body" 
+          data-path="${this.escapeHtml(path)}"
+          placeholder="Body: what changed and why (optional)"
+          rows="3"
+        >${this.escapeHtml(this.state.commitBodies.get(path) || '')}</textarea>
+        <div class="trailer-rows">
+          ${trailers.map((trailer, index) => `
+            <div class="trailer-row">
+              <input class="trailer-key" list="trailer-keys" data-path="${this.escapeHtml(path)}" data-index="${index}" value="${this.escapeHtml(trailer.key)}" placeholder="Key" />
+              <span class="trailer-separator">:</span>
+              <input class="trailer-value" data-path="${this.escapeHtml(path)}" data-index="${index}" value="${this.escapeHtml(trailer.value)}" placeholder="Value" />
+              <button class="btn btn-icon trailer-remove" data-path="${this.escapeHtml(path)}" data-index="${index}" title="Remove trailer">✕</button>
+            </div>
+          `).join('')}
+          ${this.state.settings.defaultTrailers.map(trailer => `
+            <div class="trailer-row default" title="Added to every commit (gittoys.bulkCommit.defaultTrailers)">
+              <span class="trailer-default">${this.escapeHtml(trailer)}</span>
+            </div>
+          `).join('')}
+          <button class="trailer-add" data-path="${this.escapeHtml(path)}">+ Add trailer</button>
+        </div>
+      </div>
+    `;
+  }
+
+  private addTrailer(path: string): void {
+    this.state.commitTrailers.set(path, [...(this.state.commitTrailers.get(path) || []), { key: '', value: '' }]);
+    this.saveState();
+    this.render();
+    const keys = document.querySelectorAll(`.trailer-key[data-path="${CSS.escape(path)}"]`);
+    (keys[keys.length - 1] as HTMLElement | undefined)?.focus();
+  }
+
+  private removeTrailer(path: string, index: number): void {
+    const trailers = (this.state.commitTrailers.get(path) || []).filter((_, i) => i !== index);
+    if (trailers.length > 0) {
+      this.state.commitTrailers.set(path, trailers);
+    } else {
+      this.state.commitTrailers.delete(path);
+      this.state.expandedDetails.add(path);
+    }
+    this.saveState();
+    this.render();
+    this.lintFileMessage(path);
+  }
+
+  private renderPrefixSuggestion(file: FileInfo, message: string): string {
+    if (!file.suggestedPrefix || message.startsWith(file.suggestedPrefix)) {
+      return '';
+    }
+    return `
+      <button class="prefix-suggestion" data-path="${this.escapeHtml(file.path)}" title="Use the suggested type and scope">
+        ${this.escapeHtml(file.suggestedPrefix.trim())}
+      </button>
+    `;
+  }
+
+  /**
+   * Start a file's message with its suggested `type(scope): `, replacing any type it already has
+   */
+  private applySuggestedPrefix(path: string): void {
+    const prefix = this.state.files.find(f => f.path === path)?.suggestedPrefix;
+    if (!prefix) {
+      return;
+    }
+    const message = this.state.commitMessages.get(path) || '';
+    const updated = prefix + message.replace(/^\w[\w-]*(\([^()]*\))?!?: /, '');
+    this.state.commitMessages.set(path, updated);
+    this.saveState();
+    this.render();
+    this.lintFileMessage(path);
+
+    const input = document.querySelector(`.commit-input[data-path="${CSS.escape(path)}"]`) as HTMLTextAreaElement | null;
+    input?.focus();
+    input?.setSelectionRange(updated.length, updated.length);
+  }
+
+  private renderHunkToggle(file: FileInfo): string {
+    const hunks = this.state.fileHunks.get(file.path);
+    const selection = this.state.hunkSelections.get(file.path);
+    const label = hunks && selection
+      ? `Hunks (${selection.length}/${hunks.length})`
+      : 'Hunks';
+    return `
+      <button 
+        class="hunk-toggle ${selection ? 'partial' : ''}" 
+        data-path="${this.escapeHtml(file.path)}"
+        title="Choose which changes of this file to commit"
+      >${this.state.expandedHunks.has(file.path) ? '▾' : '▸'} ${label}</button>
+    `;
+  }
+
+  private renderHunkPicker(file: FileInfo): string {
+    const hunks = this.state.fileHunks.get(file.path);
+    if (!hunks) {
+      return '<div class="hunk-picker"><div class="hunk-loading">Loading hunks...</div></div>';
+    }
+    if (hunks.length === 0) {
+      return '<div class="hunk-picker"><div class="hunk-loading">No hunks to pick from</div></div>';
+    }
+
+    const selection = this.state.hunkSelections.get(file.path);
+    // Hunks can be split off into any group but the one the whole file is in
+    const ownGroup = this.getCommitGroup(file.path);
+    const groups = this.state.commitGroups.filter(g => g !== ownGroup);
+    return `
+      <div class="hunk-picker">
+        ${hunks.map(hunk => {
+          const splitInto = this.getHunkGroup(file.path, hunk.id);
+          const checked = !splitInto && (!selection || selection.includes(hunk.id));
+          return `
+            <div class="hunk ${checked ? 'selected' : ''}">
+              <label class="hunk-header">
+                <input 
+                  type="checkbox" 
+                  class="hunk-checkbox" 
+                  data-path="${this.escapeHtml(file.path)}" 
+                  data-hunk="${hunk.id}"
+                  ${checked ? 'checked' : ''}
+                  ${splitInto ? `disabled title="Committed with ${this.escapeHtml(splitInto.name)}"` : ''}
+                />
+                <span class="hunk-range">${this.escapeHtml(hunk.header)}</span>
+                <span class="hunk-stats">
+                  <span class="additions">+${hunk.additions}</span>
+                  <span class="deletions">-${hunk.deletions}</span>
+                </span>
+                ${groups.length > 0 ? `
+                  <select class="hunk-group" data-path="${this.escapeHtml(file.path)}" data-hunk="${hunk.id}" title="Commit this hunk with a group">
+                    <option value="">${ownGroup ? this.escapeHtml(ownGroup.name) : 'This file'}</option>
+                    ${groups.map(g => `
+                      <option value="${g.id}" ${splitInto === g ? 'selected' : ''}>${this.escapeHtml(g.name)}</option>
+                    `).join('')}
+                  </select>
+                ` : ''}
+              </label>
+              <pre class="hunk-lines">${hunk.lines.map(line => {
+                const cls = line.startsWith('+') ? 'add' : line.startsWith('-') ? 'del' : '';
+                return `<span class="${cls}">${this.escapeHtml(line)}</span>`;
+              }).join('\n')}</pre>
+            </div>
+          `;
+        }).join('')}
+      </div>
+    `;
+  }
+
   private setupEventListeners(): void {
     // Refresh button
     document.getElementById('btn-refresh')?.addEventListener('click', () => {
@@ -578,6 +2527,12 @@ class BulkCommitApp {
     });
 
     // Group by folder checkbox
+    // Repository selector; an empty value shows every repository
+    document.getElementById('repo-select')?.addEventListener('change', (e) => {
+      const rootPath = (e.target as HTMLSelectElement).value;
+      this.vscode.postMessage({ command: 'selectRepository', rootPath: rootPath || null });
+    });
+
     document.getElementById('group-by-folder')?.addEventListener('change', (e) => {
       this.state.groupByFolder = (e.target as HTMLInputElement).checked;
       this.saveState();
@@ -608,15 +2563,301 @@ class BulkCommitApp {
       });
     });
 
+    // Commit plan
+    document.getElementById('btn-confirm-plan')?.addEventListener('click', () => this.closeCommitPlan(true));
+    document.getElementById('btn-discard-plan')?.addEventListener('click', () => this.closeCommitPlan(false));
+
+    // All-or-nothing toggle
+    document.getElementById('atomic-toggle')?.addEventListener('change', (e) => {
+      this.state.atomic = (e.target as HTMLInputElement).checked;
+      this.saveState();
+    });
+
+    // Co-authors and author; the extension sends the new selection back
+    document.getElementById('co-author-select')?.addEventListener('change', (e) => {
+      const person = (e.target as HTMLSelectElement).value;
+      if (person) {
+        this.vscode.postMessage({ command: 'setCoAuthors', coAuthors: [...this.state.coAuthors, person] });
+      }
+    });
+
+    document.querySelectorAll('.co-author-remove').forEach(btn => {
+      btn.addEventListener('click', (e) => {
+        const person = (e.currentTarget as HTMLElement).dataset.person;
+        this.vscode.postMessage({ command: 'setCoAuthors', coAuthors: this.state.coAuthors.filter(p => p !== person) });
+      });
+    });
+
+    document.getElementById('author-select')?.addEventListener('change', (e) => {
+      const author = (e.target as HTMLSelectElement).value;
+      this.vscode.postMessage({ command: 'setAuthor', author: author || undefined });
+    });
+
+    // Commit options of the run and of single commits
+    document.querySelectorAll('.run-option').forEach(input => {
+      input.addEventListener('change', (e) => {
+        const target = e.target as HTMLInputElement;
+        this.state.runOptions = { ...this.state.runOptions, [target.dataset.option!]: target.checked };
+        this.saveState();
+        this.render();
+      });
+    });
+
+    document.querySelectorAll('.options-toggle').forEach(btn => {
+      btn.addEventListener('click', (e) => {
+        const key = (e.currentTarget as HTMLElement).dataset.key!;
+        if (this.state.expandedOptions.has(key)) {
+          this.state.expandedOptions.delete(key);
+        } else {
+          this.state.expandedOptions.add(key);
+        }
+        this.render();
+      });
+    });
+
+    document.querySelectorAll('.commit-option').forEach(input => {
+      input.addEventListener('change', (e) => {
+        const target = e.target as HTMLInputElement;
+        this.setCommitOption(target.dataset.key!, target.dataset.option as keyof CommitOptionsInfo, target.checked);
+      });
+    });
+
+    document.querySelectorAll('.options-reset').forEach(btn => {
+      btn.addEventListener('click', (e) => {
+        this.state.commitOptions.delete((e.currentTarget as HTMLElement).dataset.key!);
+        this.saveState();
+        this.render();
+      });
+    });
+
+    // Dismiss last result
+    document.getElementById('btn-dismiss-result')?.addEventListener('click', () => {
+      this.state.lastResult = null;
+      this.state.commitRun = null;
+      this.render();
+    });
+
+    this.setupCommitRunListeners();
+    this.setupCommitQueueListeners();
+
+    document.getElementById('btn-fill-suggestions')?.addEventListener('click', () => this.fillEmptyMessages());
+
+    // Drafts list
+    document.getElementById('btn-drafts')?.addEventListener('click', () => this.toggleDrafts());
+    document.getElementById('btn-close-drafts')?.addEventListener('click', () => this.toggleDrafts());
+    document.querySelectorAll('.draft-restore').forEach(btn => {
+      btn.addEventListener('click', (e) => {
+        this.vscode.postMessage({ command: 'restoreDraft', id: (e.currentTarget as HTMLElement).dataset.id });
+      });
+    });
+    document.querySelectorAll('.draft-discard').forEach(btn => {
+      btn.addEventListener('click', (e) => {
+        this.vscode.postMessage({ command: 'discardDraft', id: (e.currentTarget as HTMLElement).dataset.id });
+      });
+    });
+
+    document.getElementById('btn-stash-selected')?.addEventListener('click', () => this.stashSelected());
+
+    // New commit group from the selected ungrouped files
+
+    document.getElementById('btn-new-group')?.addEventListener('click', () => {
+      const visible = new Set(this.getFilteredFiles().map(f => f.path));
+      const paths = Array.from(this.state.selectedFiles)
+        .filter(path => visible.has(path) && !this.getCommitGroup(path));
+      this.createCommitGroup(paths);
+    });
+
+    // Commit group controls
+    document.querySelectorAll('.commit-group-name').forEach(input => {
+      input.addEventListener('input', (e) => {
+        const target = e.target as HTMLInputElement;
+        const group = this.state.commitGroups.find(g => g.id === target.dataset.group);
+        if (group) {
+          group.name = target.value;
+          this.saveState();
+        }
+      });
+      input.addEventListener('change', () => this.render());
+    });
+
+    document.querySelectorAll('.commit-group-message').forEach(input => {
+      input.addEventListener('input', (e) => {
+        const target = e.target as HTMLTextAreaElement;
+        const group = this.state.commitGroups.find(g => g.id === target.dataset.group);
+        if (group) {
+          group.message = target.value;
+          this.saveState();
+          this.updateCommitButton();
+          this.requestLint(`group:${group.id}`, this.splitMessage(group.message), group.files[0]);
+        }
+      });
+    });
+
+    document.querySelectorAll('.commit-group-delete').forEach(btn => {
+      btn.addEventListener('click', (e) => {
+        this.deleteCommitGroup((e.currentTarget as HTMLElement).dataset.group!);
+      });
+    });
+
+    document.querySelectorAll('.commit-group-file-remove').forEach(btn => {
+      btn.addEventListener('click', (e) => {
+        this.removeFromCommitGroup((e.currentTarget as HTMLElement).dataset.path!);
+        this.saveState();
+        this.render();
+      });
+    });
+
+    // Drag files onto a group to add them, or back onto the file list to ungroup them
+    document.querySelectorAll('.file-item, .commit-group-file').forEach(item => {
+      item.addEventListener('dragstart', (e) => {
+        const dragEvent = e as DragEvent;
+        dragEvent.dataTransfer?.setData('text/plain', (e.currentTarget as HTMLElement).dataset.path!);
+        e.stopPropagation();
+      });
+    });
+
+    document.querySelectorAll('.commit-group').forEach(groupEl => {
+      groupEl.addEventListener('dragover', (e) => {
+        e.preventDefault();
+        groupEl.classList.add('drag-over');
+      });
+      groupEl.addEventListener('dragleave', () => groupEl.classList.remove('drag-over'));
+      groupEl.addEventListener('drop', (e) => {
+        e.preventDefault();
+        const path = (e as DragEvent).dataTransfer?.getData('text/plain');
+        if (path) {
+          this.addToCommitGroup((groupEl as HTMLElement).dataset.group!, path);
+        }
+      });
+    });
+
+    const fileList = document.getElementById('file-list');
+    fileList?.addEventListener('dragover', (e) => e.preventDefault());
+    fileList?.addEventListener('drop', (e) => {
+      e.preventDefault();
+      const path = (e as DragEvent).dataTransfer?.getData('text/plain');
+      if (path && this.getCommitGroup(path)) {
+        this.removeFromCommitGroup(path);
+        this.saveState();
+        this.render();
+      }
+    });
+
+    this.setupSuggestionListeners();
+
+    document.querySelectorAll('.prefix-suggestion').forEach(btn => {
+      btn.addEventListener('click', (e) => {
+        this.applySuggestedPrefix((e.currentTarget as HTMLElement).dataset.path!);
+      });
+    });
+
+    // Body and trailer rows
+    document.querySelectorAll('.details-toggle').forEach(btn => {
+      btn.addEventListener('click', (e) => {
+        const path = (e.currentTarget as HTMLElement).dataset.path!;
+        this.state.expandedDetails.add(path);
+        this.render();
+        (document.querySelector(`.commit-body[data-path="${CSS.escape(path)}"]`) as HTMLElement | null)?.focus();
+      });
+    });
+
+    document.querySelectorAll('.commit-body').forEach(input => {
+      input.addEventListener('input', (e) => {
+        const target = e.target as HTMLTextAreaElement;
+        const path = target.dataset.path!;
+        this.state.commitBodies.set(path, target.value);
+        this.saveState();
+        this.lintFileMessage(path);
+      });
+    });
+
+    document.querySelectorAll('.trailer-key, .trailer-value').forEach(input => {
+      input.addEventListener('input', (e) => {
+        const target = e.target as HTMLInputElement;
+        const path = target.dataset.path!;
+        const trailer = this.state.commitTrailers.get(path)?.[Number(target.dataset.index)];
+        if (trailer) {
+          trailer[target.classList.contains('trailer-key') ? 'key' : 'value'] = target.value;
+          this.saveState();
+          this.lintFileMessage(path);
+        }
+      });
+    });
+
+    document.querySelectorAll('.trailer-add').forEach(btn => {
+      btn.addEventListener('click', (e) => this.addTrailer((e.currentTarget as HTMLElement).dataset.path!));
+    });
+
+    document.querySelectorAll('.trailer-remove').forEach(btn => {
+      btn.addEventListener('click', (e) => {
+        const target = e.currentTarget as HTMLElement;
+        this.removeTrailer(target.dataset.path!, Number(target.dataset.index));
+      });
+    });
+
+    // Hunk picker toggles
+    document.querySelectorAll('.hunk-toggle').forEach(btn => {
+      btn.addEventListener('click', (e) => {
+        const path = (e.currentTarget as HTMLElement).dataset.path!;
+        this.toggleHunkPicker(path);
+      });
+    });
+
+    // Hunk checkboxes
+    document.querySelectorAll('.hunk-group').forEach(select => {
+      select.addEventListener('change', (e) => {
+        const target = e.target as HTMLSelectElement;
+        this.assignHunk(target.dataset.path!, target.dataset.hunk!, target.value);
+      });
+    });
+
+    document.querySelectorAll('.commit-group-split-remove').forEach(btn => {
+      btn.addEventListener('click', (e) => {
+        const target = e.currentTarget as HTMLElement;
+        const group = this.state.commitGroups.find(g => g.id === target.dataset.group);
+        if (group) {
+          this.unsplitFile(group, target.dataset.path!);
+          this.saveState();
+          this.render();
+        }
+      });
+    });
+
+    document.querySelectorAll('.hunk-checkbox').forEach(checkbox => {
+      checkbox.addEventListener('change', (e) => {
+        const target = e.target as HTMLInputElement;
+        this.toggleHunk(target.dataset.path!, target.dataset.hunk!, target.checked);
+      });
+    });
+
     // Commit message inputs
     document.querySelectorAll('.commit-input').forEach(input => {
       input.addEventListener('input', (e) => {
         const target = e.target as HTMLTextAreaElement;
-        const path = target.dataset.path!;
+        const path = target.dataset.path;
+        if (!path) {
+          // Commit group messages are handled separately
+          return;
+        }
+        // A pasted multi-line message keeps its first line as the subject and moves the rest to the body
+        if (target.value.includes('\n')) {
+          const [subject, ...rest] = target.value.split('\n');
+          const body = [rest.join('\n').trim(), this.state.commitBodies.get(path) || ''].filter(Boolean).join('\n\n');
+          this.state.commitMessages.set(path, subject);
+          if (body) {
+            this.state.commitBodies.set(path, body);
+          }
+          this.saveState();
+          this.render();
+          this.lintFileMessage(path);
+          (document.querySelector(`.commit-body[data-path="${CSS.escape(path)}"]`) as HTMLElement | null)?.focus();
+          return;
+        }
         this.state.commitMessages.set(path, target.value);
         this.saveState();
         this.updateCommitButton();
         this.updateCharCount(target);
+        this.lintFileMessage(path);
       });
 
       // Auto-resize textarea
@@ -626,15 +2867,41 @@ class BulkCommitApp {
         target.style.height = Math.min(target.scrollHeight, 120) + 'px';
       });
 
-      // Tab to next input
+      // Tab to the next placeholder, then to the next input
       input.addEventListener('keydown', (e: Event) => {
         const keyEvent = e as KeyboardEvent;
+        const textarea = e.target as HTMLTextAreaElement;
+        const path = textarea.dataset.path;
+        if (keyEvent.key === 'Tab' && !keyEvent.shiftKey && path && this.isMessageEmpty(path) && this.state.suggestions.has(path)) {
+          e.preventDefault();
+          this.acceptSuggestion(path);
+          this.saveState();
+          if (this.isDetailsExpanded(path)) {
+            // The suggestion came with a body or trailers
+            this.render();
+            const subject = document.querySelector(`.commit-input[data-path="${CSS.escape(path)}"]`) as HTMLTextAreaElement;
+            subject.focus();
+            subject.setSelectionRange(subject.value.length, subject.value.length);
+            return;
+          }
+          textarea.value = this.state.commitMessages.get(path)!;
+          textarea.setSelectionRange(textarea.value.length, textarea.value.length);
+          this.updateCommitButton();
+          this.updateCharCount(textarea);
+          return;
+        }
+        if (keyEvent.key === 'Tab' && !keyEvent.shiftKey && this.selectNextPlaceholder(textarea, textarea.selectionEnd)) {
+          e.preventDefault();
+          return;
+        }
         if (keyEvent.key === 'Tab' && !keyEvent.shiftKey) {
           const inputs = Array.from(document.querySelectorAll('.commit-input'));
           const currentIndex = inputs.indexOf(e.target as Element);
           if (currentIndex < inputs.length - 1) {
             e.preventDefault();
-            (inputs[currentIndex + 1] as HTMLTextAreaElement).focus();
+            const next = inputs[currentIndex + 1] as HTMLTextAreaElement;
+            next.focus();
+            this.selectNextPlaceholder(next, 0);
           }
         }
       });
@@ -653,16 +2920,19 @@ class BulkCommitApp {
 
   private updateCommitButton(): void {
     const filteredFiles = this.getFilteredFiles();
-    const filesWithMessages = Array.from(this.state.selectedFiles)
-      .filter(path => this.state.commitMessages.get(path)?.trim())
-      .filter(path => filteredFiles.some(f => f.path === path));
-    const readyToCommit = filesWithMessages.length;
+    const readyToCommit = this.getCommitRequests().length;
+    this.updateCommitQueue();
     
     const btn = document.getElementById('btn-commit') as HTMLButtonElement;
     const summary = document.querySelector('.commit-summary');
     
+    const fillButton = document.getElementById('btn-fill-suggestions') as HTMLButtonElement | null;
+    if (fillButton) {
+      fillButton.disabled = this.getFillableFiles().length === 0;
+    }
+
     if (btn) {
-      btn.disabled = readyToCommit === 0;
+      btn.disabled = readyToCommit === 0 || !!this.state.commitRun?.running;
       btn.textContent = `Commit ${readyToCommit > 0 ? `(${readyToCommit})` : ''}`;
     }
     
@@ -670,34 +2940,34 @@ class BulkCommitApp {
       const selectedCount = Array.from(this.state.selectedFiles).filter(
         path => filteredFiles.some(f => f.path === path)
       ).length;
-      summary.textContent = readyToCommit > 0 
-        ? `Ready to commit ${readyToCommit} file${readyToCommit !== 1 ? 's' : ''} ${this.state.settings.pushAfterCommit ? '(will push)' : ''}`
-        : `${selectedCount} file${selectedCount !== 1 ? 's' : ''} selected - add commit messages`;
+      summary.textContent = this.getCommitSummary(readyToCommit, selectedCount);
     }
   }
 
   private handleCommit(): void {
-    const filteredFiles = this.getFilteredFiles();
-    const commits: CommitRequest[] = [];
-    
-    this.state.selectedFiles.forEach(path => {
-      const message = this.state.commitMessages.get(path)?.trim();
-      if (message && filteredFiles.some(f => f.path === path)) {
-        commits.push({ filePath: path, message });
-      }
-    });
+    const groups = this.getCommitRequests();
+
+    // Ctrl+Enter while reviewing the plan confirms it
+    if (this.state.commitPlan) {
+      this.closeCommitPlan(true);
+      return;
+    }
 
-    if (commits.length === 0) {
+    if (groups.length === 0 || this.state.commitRun?.running) {
       return;
     }
 
-    this.vscode.postMessage({ command: 'commitFiles', commits });
+    this.state.lastResult = null;
+    this.state.error = null;
+    // Only the options toggled here; the extension applies them over each repository's defaults
+    this.vscode.postMessage({ command: 'commitFiles', groups, atomic: this.isAtomic(), options: this.state.runOptions });
   }
 
   private escapeHtml(text: string): string {
     const div = document.createElement('div');
     div.textContent = text;
-    return div.innerHTML;
+    // Also safe inside quoted attributes
+    return div.innerHTML.replace(/"/g, '&quot;');
   }
 }
 